@@ -0,0 +1,118 @@
+import type {
+  AiEvaluationDraft,
+  AiEvaluationInput,
+  Application,
+  Criterion,
+  Evaluation,
+  Recommendation
+} from '../types/index.js';
+import { translate, type Locale } from './i18n.js';
+
+export const RECOMMENDATIONS: Recommendation[] = ['ACCEPT', 'REJECT', 'WAITLIST', 'NEEDS_MORE_INFO'];
+
+export interface AiReviewer {
+  id: string;
+  name: string;
+}
+
+export function getAiReviewer(): AiReviewer {
+  return {
+    id: process.env.MCP_AI_REVIEWER_ID ?? 'ftc-ai-reviewer',
+    name: process.env.MCP_AI_REVIEWER_NAME ?? 'FTC AI Reviewer'
+  };
+}
+
+function isComplete(evaluation: Evaluation): boolean {
+  return evaluation.status === 'COMPLETED' || Boolean(evaluation.completedAt);
+}
+
+/**
+ * Check an AI evaluation against the event's active criteria and existing
+ * evaluations, returning every problem found in the given locale (empty when
+ * the input is valid).
+ */
+export function validateAiEvaluation(
+  input: AiEvaluationInput,
+  criteria: Criterion[],
+  applications: Application[],
+  evaluations: Evaluation[],
+  reviewer: AiReviewer,
+  locale: Locale = 'en'
+): string[] {
+  const errors: string[] = [];
+
+  if (!applications.some(application => application.id === input.applicationId)) {
+    errors.push(translate(locale, 'aiEvaluation.applicationNotFound', { applicationId: input.applicationId }));
+  }
+
+  const completed = evaluations.find(evaluation =>
+    evaluation.applicationId === input.applicationId && evaluation.reviewerId === reviewer.id && isComplete(evaluation)
+  );
+  if (completed) {
+    errors.push(translate(locale, 'aiEvaluation.alreadyComplete', { evaluationId: completed.id, reviewerId: reviewer.id }));
+  }
+
+  const criteriaById = new Map(criteria.map(criterion => [criterion.id, criterion]));
+  const scored = new Set<string>();
+
+  for (const [index, entry] of (input.scores ?? []).entries()) {
+    const criterion = criteriaById.get(entry.criteriaId);
+    if (!criterion) {
+      errors.push(translate(locale, 'aiEvaluation.unknownCriterion', { index: String(index), criteriaId: entry.criteriaId }));
+      continue;
+    }
+    if (!criterion.isActive) {
+      errors.push(translate(locale, 'aiEvaluation.inactiveCriterion', { index: String(index), criterion: criterion.name, criteriaId: criterion.id }));
+      continue;
+    }
+    if (scored.has(criterion.id)) {
+      errors.push(translate(locale, 'aiEvaluation.duplicateScore', { index: String(index), criterion: criterion.name, criteriaId: criterion.id }));
+      continue;
+    }
+    scored.add(criterion.id);
+
+    const { min, max } = criterion.scoreRange;
+    if (typeof entry.score !== 'number' || Number.isNaN(entry.score) || entry.score < min || entry.score > max) {
+      errors.push(translate(locale, 'aiEvaluation.scoreOutOfRange', {
+        index: String(index), score: String(entry.score), criterion: criterion.name, min: String(min), max: String(max)
+      }));
+    }
+    if (!entry.reasoning?.trim()) {
+      errors.push(translate(locale, 'aiEvaluation.reasoningRequired', { index: String(index), criterion: criterion.name }));
+    }
+  }
+
+  for (const criterion of criteria) {
+    if (criterion.isActive && !scored.has(criterion.id)) {
+      errors.push(translate(locale, 'aiEvaluation.missingScore', { criterion: criterion.name, criteriaId: criterion.id }));
+    }
+  }
+
+  if (input.recommendation !== undefined && !RECOMMENDATIONS.includes(input.recommendation)) {
+    errors.push(translate(locale, 'aiEvaluation.invalidRecommendation', { recommendations: RECOMMENDATIONS.join(', ') }));
+  }
+  if (input.confidence !== undefined && (input.confidence < 1 || input.confidence > 5)) {
+    errors.push(translate(locale, 'aiEvaluation.invalidConfidence'));
+  }
+
+  return errors;
+}
+
+/**
+ * Build the exact payload POSTed upstream for an AI evaluation draft
+ */
+export function buildAiEvaluationDraft(eventId: string, input: AiEvaluationInput, reviewer: AiReviewer): AiEvaluationDraft {
+  return {
+    eventId,
+    applicationId: input.applicationId,
+    status: 'DRAFT',
+    reviewer: { ...reviewer, type: 'AI' },
+    ...(input.stage !== undefined && { stage: input.stage }),
+    scores: input.scores.map(({ criteriaId, score, reasoning }) => ({ criteriaId, score, reasoning })),
+    ...(input.overallScore !== undefined && { overallScore: input.overallScore }),
+    ...(input.overallComments !== undefined && { overallComments: input.overallComments }),
+    ...(input.recommendation !== undefined && { recommendation: input.recommendation }),
+    ...(input.confidence !== undefined && { confidence: input.confidence }),
+    submittedAt: new Date().toISOString()
+  };
+}
@@ -1,81 +1,343 @@
-import fetch from 'node-fetch';
+import fetch, { type Response } from 'node-fetch';
 import type {
+  AiEvaluationDraft,
   ApiResponse,
+  ApplicationsQuery,
   EventApplicationsData,
   EventEvaluationsData,
   EvaluationCriteriaData,
+  EvaluationDraftResult,
   ApplicationQuestionsData,
   TestConnectionData
 } from '../types/index.js';
+import { applyApplicationsQuery, toSearchParams } from './application-query.js';
+import { ResponseCache, type CacheStats, type LoadResult } from './response-cache.js';
+import { CircuitBreaker, type CircuitBreakerStatus } from './circuit-breaker.js';
+import { recordUpstreamCall, type UpstreamCall } from './audit-log.js';
+import { observeUpstreamCall } from './metrics.js';
+import { FixtureRecorder, MockPlatform, getFixtureConfig, type UpstreamMode } from './fixtures.js';
+import {
+  applicationQuestionsSchema,
+  evaluationCriteriaSchema,
+  evaluationDraftResultSchema,
+  eventApplicationsSchema,
+  eventEvaluationsSchema,
+  getValidationMode,
+  testConnectionSchema,
+  validatePayload,
+  type ValidationMode
+} from './schemas.js';
+import type { ZodTypeAny } from 'zod';
+import { LocalizedError } from './i18n.js';
+
+type CachedDataType = 'applications' | 'evaluations' | 'criteria' | 'questions';
+
+// Criteria and questions rarely change within an event, so they are cached longer
+const DEFAULT_CACHE_TTL_SECONDS: Record<CachedDataType, number> = {
+  applications: 60,
+  evaluations: 60,
+  criteria: 600,
+  questions: 600
+};
+
+function readCacheTtls(): Record<CachedDataType, number> {
+  const ttls = { ...DEFAULT_CACHE_TTL_SECONDS };
+  for (const dataType of Object.keys(ttls) as CachedDataType[]) {
+    const value = process.env[`MCP_CACHE_TTL_${dataType.toUpperCase()}_SECONDS`];
+    if (value !== undefined && value !== '') {
+      ttls[dataType] = Math.max(parseInt(value, 10) || 0, 0);
+    }
+  }
+  return ttls;
+}
+
+interface UpstreamRequest {
+  method: 'GET' | 'POST';
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+interface RetryConfig {
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+function readIntEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? '', 10);
+  return Number.isNaN(value) || value < 0 ? fallback : value;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Parse a Retry-After header given either in seconds or as an HTTP date
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Read side of the platform API, shared by the client and wrappers around it
+ */
+export type PlatformReader = Pick<
+  VercelApiClient,
+  'testConnection' | 'getEventApplications' | 'getEventEvaluations' | 'getEvaluationCriteria' | 'getApplicationQuestions' | 'reviewerIdFor'
+>;
 
 export class VercelApiClient {
   private baseUrl: string;
   private apiKey: string;
+  private cache: ResponseCache;
+  private cacheTtls: Record<CachedDataType, number>;
+  private retryConfig: RetryConfig;
+  private circuitBreaker: CircuitBreaker;
+  private validationMode: ValidationMode;
+  private upstreamMode: UpstreamMode;
+  private mockPlatform?: MockPlatform;
+  private recorder?: FixtureRecorder;
 
   constructor() {
     this.baseUrl = process.env.VERCEL_API_BASE_URL ?? 'http://localhost:3000/api/mastra';
     this.apiKey = process.env.MASTRA_API_KEY ?? '';
+
+    const fixtures = getFixtureConfig();
+    this.upstreamMode = fixtures.mode;
+    if (fixtures.mode === 'mock') {
+      this.mockPlatform = new MockPlatform(fixtures);
+    } else if (fixtures.mode === 'record') {
+      this.recorder = new FixtureRecorder(fixtures.dir);
+    }
     
-    if (!this.apiKey) {
+    // The mock platform needs no credentials
+    if (!this.apiKey && !this.mockPlatform) {
       throw new Error('MASTRA_API_KEY environment variable is required');
     }
+
+    this.cache = new ResponseCache(Math.max(readIntEnv('MCP_CACHE_MAX_ENTRIES', 500), 1));
+    this.cacheTtls = readCacheTtls();
+    this.retryConfig = {
+      timeoutMs: readIntEnv('MCP_UPSTREAM_TIMEOUT_MS', 10_000),
+      maxRetries: readIntEnv('MCP_UPSTREAM_MAX_RETRIES', 3),
+      baseDelayMs: readIntEnv('MCP_UPSTREAM_RETRY_BASE_MS', 250),
+      maxDelayMs: readIntEnv('MCP_UPSTREAM_RETRY_MAX_MS', 10_000)
+    };
+    this.circuitBreaker = new CircuitBreaker({
+      failureThreshold: Math.max(readIntEnv('MCP_CIRCUIT_FAILURE_THRESHOLD', 5), 1),
+      resetTimeoutMs: readIntEnv('MCP_CIRCUIT_RESET_MS', 30_000)
+    });
+    this.validationMode = getValidationMode();
   }
 
-  private async makeRequest<T>(endpoint: string): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`;
-    
-    const response = await fetch(url, {
+  private async makeRequest<T>(endpoint: string, schema: ZodTypeAny, dataType?: CachedDataType): Promise<T> {
+    const ttlMs = dataType ? this.cacheTtls[dataType] * 1000 : 0;
+    const startedAt = Date.now();
+    let fetched = false;
+    const data = await this.cache.getOrLoad<T>(endpoint, ttlMs, etag => {
+      fetched = true;
+      return this.fetchData<T>(endpoint, schema, etag);
+    });
+
+    // Upstream requests are recorded by sendRequest; note reads served from the cache too
+    if (!fetched) {
+      this.recordCall({ method: 'GET', endpoint, status: null, cached: true, durationMs: Date.now() - startedAt });
+    }
+    return data;
+  }
+
+  private async fetchData<T>(endpoint: string, schema: ZodTypeAny, etag?: string): Promise<LoadResult<T>> {
+    const response = await this.sendRequest(endpoint, {
       method: 'GET',
+      headers: etag ? { 'If-None-Match': etag } : {}
+    });
+
+    if (response.status === 304) {
+      return { notModified: true };
+    }
+
+    const data = await this.parseResponse<T>(response, endpoint, schema);
+    await this.recorder?.record(endpoint, data);
+    return {
+      notModified: false,
+      data,
+      etag: response.headers.get('etag') ?? undefined
+    };
+  }
+
+  private async postRequest<T>(endpoint: string, body: unknown, schema: ZodTypeAny): Promise<T> {
+    const response = await this.sendRequest(endpoint, {
+      method: 'POST',
+      body: JSON.stringify(body)
+    });
+    return this.parseResponse<T>(response, endpoint, schema);
+  }
+
+  private async sendRequest(endpoint: string, request: UpstreamRequest): Promise<Response> {
+    const url = `${this.baseUrl}${endpoint}`;
+    const init: UpstreamRequest = {
+      ...request,
       headers: {
         'Authorization': `Bearer ${this.apiKey}`,
         'Content-Type': 'application/json',
-        'User-Agent': 'FTC-MCP-Server/1.0.0'
+        'User-Agent': 'FTC-MCP-Server/1.0.0',
+        ...request.headers
       }
-    });
+    };
+
+    // POSTs are not idempotent, so only GETs are retried
+    const maxRetries = request.method === 'GET' ? this.retryConfig.maxRetries : 0;
 
+    // Only upstream availability problems (5xx, network errors, timeouts) trip the breaker
+    const startedAt = Date.now();
+    let status: number | null = null;
+    try {
+      const response = await this.circuitBreaker.execute(
+        () => this.mockPlatform ? this.mockPlatform.respond(endpoint, request.method, request.body) : this.fetchWithRetry(url, init, maxRetries),
+        result => result.status >= 500
+      );
+      status = response.status;
+      return response;
+    } finally {
+      this.recordCall({ method: request.method, endpoint, status, cached: false, durationMs: Date.now() - startedAt });
+    }
+  }
+
+  private recordCall(call: UpstreamCall): void {
+    recordUpstreamCall(call);
+    observeUpstreamCall(call);
+  }
+
+  private async parseResponse<T>(response: Response, endpoint: string, schema: ZodTypeAny): Promise<T> {
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`API request failed: ${response.status} ${response.statusText}\nResponse: ${errorText}`);
+      throw new LocalizedError('errors.upstreamStatus', { status: String(response.status), statusText: response.statusText, body: errorText });
     }
 
     const data = await response.json() as ApiResponse<T>;
     
     if (!data.success) {
-      throw new Error(`API returned error: ${data.error ?? 'Unknown error'}\nDetails: ${data.details ?? 'No details'}`);
+      throw new LocalizedError('errors.upstreamError', { error: data.error ?? 'Unknown error', details: data.details ?? 'No details' });
     }
 
     if (!data.data) {
-      throw new Error('API returned success but no data');
+      throw new LocalizedError('errors.upstreamNoData');
     }
 
-    return data.data;
+    return validatePayload<T>(schema, data.data, endpoint, this.validationMode);
+  }
+
+  /**
+   * Fetch with a per-attempt timeout, retrying 5xx, 429 and network errors
+   * with jittered exponential backoff. 429 responses honour Retry-After.
+   */
+  private async fetchWithRetry(url: string, init: UpstreamRequest, maxRetries: number): Promise<Response> {
+    const { baseDelayMs, maxDelayMs } = this.retryConfig;
+
+    for (let attempt = 0; ; attempt++) {
+      const backoffMs = Math.random() * Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+
+      let response: Response;
+      try {
+        response = await this.fetchWithTimeout(url, init);
+      } catch (error) {
+        if (attempt >= maxRetries) {
+          throw error;
+        }
+        console.warn(`[API Client] Request to ${url} failed (attempt ${attempt + 1}), retrying:`, error instanceof Error ? error.message : error);
+        await sleep(backoffMs);
+        continue;
+      }
+
+      if (!isRetryableStatus(response.status) || attempt >= maxRetries) {
+        return response;
+      }
+
+      const retryAfterMs = response.status === 429 ? parseRetryAfter(response.headers.get('retry-after')) : undefined;
+      if (retryAfterMs !== undefined && retryAfterMs > maxDelayMs) {
+        return response;
+      }
+
+      console.warn(`[API Client] Request to ${url} returned ${response.status} (attempt ${attempt + 1}), retrying`);
+      await sleep(retryAfterMs ?? backoffMs);
+    }
+  }
+
+  private async fetchWithTimeout(url: string, init: UpstreamRequest): Promise<Response> {
+    const { timeoutMs } = this.retryConfig;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      return await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new LocalizedError('errors.upstreamTimeout', { timeoutMs: String(timeoutMs), url });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
   }
 
   /**
    * Test connection to the Vercel API
    */
   async testConnection(): Promise<TestConnectionData> {
-    return this.makeRequest<TestConnectionData>('/test');
+    return this.makeRequest<TestConnectionData>('/test', testConnectionSchema);
   }
 
   /**
-   * Get all applications for a specific event
+   * Get applications for a specific event, optionally filtered and paged.
+   * The query is forwarded upstream and re-applied locally when upstream ignores it.
    */
-  async getEventApplications(eventId: string): Promise<EventApplicationsData> {
+  async getEventApplications(eventId: string, query: ApplicationsQuery = {}): Promise<EventApplicationsData> {
     if (!eventId) {
-      throw new Error('eventId is required');
+      throw new LocalizedError('errors.eventIdRequired');
     }
-    return this.makeRequest<EventApplicationsData>(`/events/${eventId}/applications`);
+    const params = toSearchParams(query).toString();
+    const data = await this.makeRequest<EventApplicationsData>(
+      `/events/${eventId}/applications${params ? `?${params}` : ''}`,
+      eventApplicationsSchema,
+      'applications'
+    );
+    return applyApplicationsQuery(data, query);
   }
 
   /**
-   * Get completed evaluations for applications in a specific event
+   * Get completed evaluations for applications in a specific event.
+   * With `fresh`, cached evaluations are dropped first so the result is current.
    */
-  async getEventEvaluations(eventId: string): Promise<EventEvaluationsData> {
+  async getEventEvaluations(eventId: string, options: { fresh?: boolean } = {}): Promise<EventEvaluationsData> {
     if (!eventId) {
-      throw new Error('eventId is required');
+      throw new LocalizedError('errors.eventIdRequired');
+    }
+    if (options.fresh) {
+      this.cache.invalidate(`/events/${eventId}/evaluations`);
     }
-    return this.makeRequest<EventEvaluationsData>(`/events/${eventId}/evaluations`);
+    return this.makeRequest<EventEvaluationsData>(`/events/${eventId}/evaluations`, eventEvaluationsSchema, 'evaluations');
+  }
+
+  /**
+   * ID a reviewer appears under in this reader's evaluations; upstream IDs are
+   * returned as they are
+   */
+  reviewerIdFor(_eventId: string, reviewerId: string): string {
+    return reviewerId;
   }
 
   /**
@@ -83,9 +345,9 @@ export class VercelApiClient {
    */
   async getEvaluationCriteria(eventId: string): Promise<EvaluationCriteriaData> {
     if (!eventId) {
-      throw new Error('eventId is required');
+      throw new LocalizedError('errors.eventIdRequired');
     }
-    return this.makeRequest<EvaluationCriteriaData>(`/events/${eventId}/criteria`);
+    return this.makeRequest<EvaluationCriteriaData>(`/events/${eventId}/criteria`, evaluationCriteriaSchema, 'criteria');
   }
 
   /**
@@ -93,19 +355,61 @@ export class VercelApiClient {
    */
   async getApplicationQuestions(eventId: string): Promise<ApplicationQuestionsData> {
     if (!eventId) {
-      throw new Error('eventId is required');
+      throw new LocalizedError('errors.eventIdRequired');
+    }
+    return this.makeRequest<ApplicationQuestionsData>(`/events/${eventId}/questions`, applicationQuestionsSchema, 'questions');
+  }
+
+  /**
+   * Submit a draft evaluation for an application. Cached evaluations for the
+   * event are dropped so the next read reflects the new draft.
+   */
+  async submitEvaluationDraft(draft: AiEvaluationDraft): Promise<EvaluationDraftResult> {
+    if (!draft.eventId) {
+      throw new LocalizedError('errors.eventIdRequired');
     }
-    return this.makeRequest<ApplicationQuestionsData>(`/events/${eventId}/questions`);
+    const result = await this.postRequest<EvaluationDraftResult>(
+      `/events/${draft.eventId}/evaluations`,
+      draft,
+      evaluationDraftResultSchema
+    );
+    this.cache.invalidate(`/events/${draft.eventId}/evaluations`);
+    return result;
+  }
+
+  /**
+   * Drop cached responses for one event, or for every event when no eventId is given.
+   * Returns the number of cache entries removed.
+   */
+  invalidateCache(eventId?: string): number {
+    return this.cache.invalidate(eventId ? `/events/${eventId}/` : undefined);
+  }
+
+  /**
+   * Cache hit/miss counters for health reporting
+   */
+  getCacheStats(): CacheStats {
+    return this.cache.getStats();
   }
 
   /**
    * Check if the API client is properly configured
    */
-  getStatus(): { configured: boolean; baseUrl: string; hasApiKey: boolean } {
+  getStatus(): {
+    configured: boolean;
+    baseUrl: string;
+    hasApiKey: boolean;
+    validationMode: ValidationMode;
+    upstreamMode: UpstreamMode;
+    circuitBreaker: CircuitBreakerStatus;
+  } {
     return {
-      configured: Boolean(this.baseUrl && this.apiKey),
+      configured: Boolean(this.mockPlatform || (this.baseUrl && this.apiKey)),
       baseUrl: this.baseUrl,
-      hasApiKey: Boolean(this.apiKey)
+      hasApiKey: Boolean(this.apiKey),
+      validationMode: this.validationMode,
+      upstreamMode: this.upstreamMode,
+      circuitBreaker: this.circuitBreaker.getStatus()
     };
   }
 }
\ No newline at end of file
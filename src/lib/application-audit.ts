@@ -0,0 +1,240 @@
+import type { Application, ApplicationQuestionsData, EventApplicationsData, Question } from '../types/index.js';
+
+export type ApplicationIssueType =
+  | 'missingRequired'
+  | 'invalidOption'
+  | 'tooManyOptions'
+  | 'emptyContactField'
+  | 'unknownQuestion';
+
+export const APPLICATION_ISSUE_TYPES: ApplicationIssueType[] = [
+  'missingRequired',
+  'invalidOption',
+  'tooManyOptions',
+  'emptyContactField',
+  'unknownQuestion'
+];
+
+export interface ApplicationAuditOptions {
+  /** Only audit applications marked complete */
+  onlyComplete?: boolean;
+  issueTypes?: ApplicationIssueType[];
+  /** Maximum number of issues listed per issue type; counts always cover all issues */
+  limit?: number;
+}
+
+export interface ApplicationIssue {
+  applicationId: string;
+  status: string;
+  isComplete: boolean;
+  completionPercentage: number;
+  questionKey: string;
+  detail: string;
+  /** Offending answer values, for option issues on questions that are not contact info */
+  values?: string[];
+}
+
+export interface ApplicationIssueGroup {
+  issueType: ApplicationIssueType;
+  description: string;
+  /** Total number of issues of this type, before `limit` */
+  count: number;
+  applicationCount: number;
+  issues: ApplicationIssue[];
+}
+
+export interface AuditedApplication {
+  applicationId: string;
+  status: string;
+  isComplete: boolean;
+  completionPercentage: number;
+  issueCount: number;
+  issueTypes: ApplicationIssueType[];
+}
+
+export interface ApplicationAuditReport {
+  eventId: string;
+  groups: ApplicationIssueGroup[];
+  /** Applications with at least one issue, most issues first */
+  applications: AuditedApplication[];
+  summary: {
+    applicationsAudited: number;
+    applicationsWithIssues: number;
+    /** Applications marked complete that are missing a required answer */
+    completeWithMissingRequired: number;
+    totalIssues: number;
+    questionCount: number;
+  };
+  options: {
+    onlyComplete: boolean;
+    issueTypes: ApplicationIssueType[];
+    limit: number | null;
+  };
+  metadata: {
+    generatedAt: string;
+    method: string;
+  };
+}
+
+const ISSUE_DESCRIPTIONS: Record<ApplicationIssueType, string> = {
+  missingRequired: 'Required question with no answer',
+  invalidOption: 'Multiple-choice answer that is not one of the question\'s options',
+  tooManyOptions: 'More options selected than the question\'s maxOptions',
+  emptyContactField: 'Contact-info question with no answer',
+  unknownQuestion: 'Answer to a question that is not in the current question set'
+};
+
+type Finding = Pick<ApplicationIssue, 'questionKey' | 'detail' | 'values'> & { issueType: ApplicationIssueType };
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * Selected values of a multiple-choice answer: a JSON array, a single option
+ * (options may contain commas), or a comma- or semicolon-separated list
+ */
+function selectedValues(answer: string, options: string[]): string[] {
+  const trimmed = answer.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed: unknown = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) {
+        return parsed.map(value => String(value).trim()).filter(value => value !== '');
+      }
+    } catch {
+      // Not JSON; treated as plain text below
+    }
+  }
+  if (options.some(option => normalize(option) === normalize(trimmed))) {
+    return [trimmed];
+  }
+  return trimmed.split(/[,;]/).map(value => value.trim()).filter(value => value !== '');
+}
+
+function auditApplication(application: Application, questions: Question[]): Finding[] {
+  const answers = new Map<string, string>();
+  for (const response of application.responses) {
+    const answer = (response.answer ?? '').trim();
+    // Keep the first non-blank answer if a key is repeated
+    if (!answers.get(response.questionKey)) {
+      answers.set(response.questionKey, answer);
+    }
+  }
+
+  const issues: Finding[] = [];
+  for (const question of questions) {
+    const answer = answers.get(question.questionKey) ?? '';
+    if (!answer) {
+      if (question.required) {
+        issues.push({ issueType: 'missingRequired', questionKey: question.questionKey, detail: 'No answer to a required question' });
+      }
+      if (question.isContactInfo) {
+        issues.push({ issueType: 'emptyContactField', questionKey: question.questionKey, detail: `Empty ${question.questionType} contact field` });
+      }
+      continue;
+    }
+
+    const options = question.options ?? [];
+    if (options.length === 0) {
+      continue;
+    }
+    const values = selectedValues(answer, options);
+    const allowed = new Set(options.map(normalize));
+    const invalid = values.filter(value => !allowed.has(normalize(value)));
+    // Contact answers are never echoed back
+    const shown = (list: string[]) => question.isContactInfo ? {} : { values: list };
+    if (invalid.length > 0) {
+      issues.push({
+        issueType: 'invalidOption',
+        questionKey: question.questionKey,
+        detail: `${invalid.length} of ${values.length} selected value(s) not in the question's ${options.length} options`,
+        ...shown(invalid)
+      });
+    }
+    if (question.maxOptions > 0 && values.length > question.maxOptions) {
+      issues.push({
+        issueType: 'tooManyOptions',
+        questionKey: question.questionKey,
+        detail: `${values.length} options selected, at most ${question.maxOptions} allowed`,
+        ...shown(values)
+      });
+    }
+  }
+
+  const known = new Set(questions.map(question => question.questionKey));
+  for (const [questionKey, answer] of answers) {
+    if (answer && !known.has(questionKey)) {
+      issues.push({ issueType: 'unknownQuestion', questionKey, detail: 'Answered question is not in the current question set' });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Check each application's responses against the event's current questions,
+ * independently of the upstream completionPercentage: required answers,
+ * multiple-choice options and maxOptions, contact fields, and answers to
+ * questions no longer asked. Issues are grouped by type.
+ */
+export function auditApplications(
+  applicationsData: EventApplicationsData,
+  questionsData: ApplicationQuestionsData,
+  options: ApplicationAuditOptions = {}
+): ApplicationAuditReport {
+  const onlyComplete = options.onlyComplete ?? false;
+  const issueTypes = options.issueTypes?.length ? options.issueTypes : APPLICATION_ISSUE_TYPES;
+  const included = new Set(issueTypes);
+
+  const applications = applicationsData.applications.filter(application => !onlyComplete || application.isComplete);
+  const groups = new Map<ApplicationIssueType, ApplicationIssue[]>(issueTypes.map(issueType => [issueType, []]));
+  const audited: AuditedApplication[] = [];
+  let completeWithMissingRequired = 0;
+
+  for (const application of applications) {
+    const issues = auditApplication(application, questionsData.questions).filter(issue => included.has(issue.issueType));
+    if (issues.length === 0) {
+      continue;
+    }
+
+    const context = {
+      applicationId: application.id,
+      status: application.status,
+      isComplete: application.isComplete,
+      completionPercentage: application.completionPercentage
+    };
+    for (const { issueType, ...issue } of issues) {
+      groups.get(issueType)!.push({ ...context, ...issue });
+    }
+    const types = [...new Set(issues.map(issue => issue.issueType))];
+    if (application.isComplete && types.includes('missingRequired')) {
+      completeWithMissingRequired++;
+    }
+    audited.push({ ...context, issueCount: issues.length, issueTypes: types });
+  }
+
+  const limit = options.limit !== undefined ? Math.max(options.limit, 0) : null;
+  return {
+    eventId: applicationsData.eventId,
+    groups: [...groups.entries()].map(([issueType, issues]) => ({
+      issueType,
+      description: ISSUE_DESCRIPTIONS[issueType],
+      count: issues.length,
+      applicationCount: new Set(issues.map(issue => issue.applicationId)).size,
+      issues: limit !== null ? issues.slice(0, limit) : issues
+    })),
+    applications: audited.sort((a, b) => b.issueCount - a.issueCount || a.applicationId.localeCompare(b.applicationId)),
+    summary: {
+      applicationsAudited: applications.length,
+      applicationsWithIssues: audited.length,
+      completeWithMissingRequired,
+      totalIssues: audited.reduce((total, application) => total + application.issueCount, 0),
+      questionCount: questionsData.questions.length
+    },
+    options: { onlyComplete, issueTypes, limit },
+    metadata: {
+      generatedAt: new Date().toISOString(),
+      method: 'Responses are checked against the current question set by questionKey. Multiple-choice answers are read as a JSON array, a single option or a comma/semicolon-separated list and compared to options case-insensitively. Answer text is not included, except offending values of non-contact multiple-choice questions.'
+    }
+  };
+}
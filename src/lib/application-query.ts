@@ -0,0 +1,129 @@
+import type {
+  Application,
+  ApplicationsQuery,
+  EventApplicationsData
+} from '../types/index.js';
+import { LocalizedError } from './i18n.js';
+
+export const MAX_PAGE_SIZE = 200;
+
+/**
+ * Serialize an applications query into URL search params for the upstream API
+ */
+export function toSearchParams(query: ApplicationsQuery): URLSearchParams {
+  const params = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+  }
+
+  return params;
+}
+
+function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as { offset?: unknown };
+    if (typeof offset === 'number' && Number.isInteger(offset) && offset >= 0) {
+      return offset;
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new LocalizedError('errors.invalidCursor', { cursor });
+}
+
+function matchesFilters(application: Application, query: ApplicationsQuery): boolean {
+  if (query.status && application.status !== query.status) {
+    return false;
+  }
+  if (query.isComplete !== undefined && application.isComplete !== query.isComplete) {
+    return false;
+  }
+  if (query.language && application.language !== query.language) {
+    return false;
+  }
+  if (query.minCompletionPercentage !== undefined && application.completionPercentage < query.minCompletionPercentage) {
+    return false;
+  }
+
+  if (query.submittedAfter || query.submittedBefore) {
+    const submittedAt = application.submittedAt ? Date.parse(application.submittedAt) : NaN;
+    if (Number.isNaN(submittedAt)) {
+      return false;
+    }
+    if (query.submittedAfter && submittedAt < Date.parse(query.submittedAfter)) {
+      return false;
+    }
+    if (query.submittedBefore && submittedAt > Date.parse(query.submittedBefore)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Apply filters, response projection and cursor paging to an applications payload.
+ *
+ * Filtering and projection are idempotent, so they are always re-applied locally
+ * in case upstream ignored the query. Paging is skipped when upstream already
+ * paged the result (signalled by the presence of `nextCursor`).
+ */
+export function applyApplicationsQuery(data: EventApplicationsData, query: ApplicationsQuery): EventApplicationsData {
+  for (const date of [query.submittedAfter, query.submittedBefore]) {
+    if (date && Number.isNaN(Date.parse(date))) {
+      throw new LocalizedError('errors.invalidDate', { date });
+    }
+  }
+
+  let applications = data.applications.filter(application => matchesFilters(application, query));
+
+  if (query.questionKeys?.length) {
+    const keys = new Set(query.questionKeys);
+    applications = applications.map(application => ({
+      ...application,
+      responses: application.responses.filter(response => keys.has(response.questionKey))
+    }));
+  }
+
+  const upstreamPaged = data.nextCursor !== undefined;
+  if (upstreamPaged || (query.limit === undefined && query.cursor === undefined)) {
+    return {
+      ...data,
+      applications,
+      totalCount: upstreamPaged ? data.totalCount : applications.length,
+      nextCursor: data.nextCursor ?? null
+    };
+  }
+
+  const limit = Math.min(Math.max(query.limit ?? MAX_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const offset = query.cursor ? decodeCursor(query.cursor) : 0;
+  const end = offset + limit;
+
+  return {
+    ...data,
+    applications: applications.slice(offset, end),
+    totalCount: applications.length,
+    nextCursor: end < applications.length ? encodeCursor(end) : null
+  };
+}
+
+/**
+ * Keep only the requested top-level fields of an application (`id` is always kept)
+ */
+export function projectApplication(application: Application, fields: string[]): Partial<Application> {
+  const projected: Record<string, unknown> = { id: application.id };
+  for (const field of fields) {
+    if (Object.hasOwn(application, field)) {
+      projected[field] = application[field as keyof Application];
+    }
+  }
+  return projected as Partial<Application>;
+}
@@ -0,0 +1,195 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { appendFile, mkdir, readFile, rename, rm, stat } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+
+export interface UpstreamCall {
+  method: 'GET' | 'POST';
+  endpoint: string;
+  /** HTTP status, or null when the request failed without a response */
+  status: number | null;
+  /** Served from the response cache without an upstream request */
+  cached: boolean;
+  durationMs: number;
+}
+
+export interface AuditRecord {
+  timestamp: string;
+  sessionId: string | null;
+  client: {
+    /** Client token or OAuth client name */
+    name: string | null;
+    /** Name and version reported by the MCP client */
+    clientInfo: { name: string; version: string } | null;
+  };
+  tool: string;
+  eventId: string | null;
+  arguments: Record<string, unknown>;
+  upstream: UpstreamCall[];
+  durationMs: number;
+  resultBytes: number;
+  isError: boolean;
+  error: string | null;
+}
+
+export interface AuditQuery {
+  eventId?: string;
+  client?: string;
+  tool?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+interface AuditLogConfig {
+  /** Path of the active log file; rotated files get a .1, .2, … suffix */
+  file: string;
+  maxBytes: number;
+  maxFiles: number;
+}
+
+const upstreamCalls = new AsyncLocalStorage<UpstreamCall[]>();
+
+/**
+ * Collect into `upstream` the upstream calls made while running fn,
+ * including those made by concurrent requests it starts
+ */
+export function trackUpstreamCalls<T>(upstream: UpstreamCall[], fn: () => Promise<T>): Promise<T> {
+  return upstreamCalls.run(upstream, fn);
+}
+
+/**
+ * Record an upstream call against the tool call currently being audited, if any
+ */
+export function recordUpstreamCall(call: UpstreamCall): void {
+  upstreamCalls.getStore()?.push(call);
+}
+
+/**
+ * Audit log settings. Production requires MCP_AUDIT_LOG_FILE, so a deployment
+ * never runs without an audit trail by accident; "off" opts out explicitly.
+ * A relative path is resolved once at startup, so the log location is explicit
+ * even when the working directory is not (e.g. stdio launches).
+ */
+export function getAuditLogConfig(): AuditLogConfig | null {
+  const file = process.env.MCP_AUDIT_LOG_FILE;
+  if (file === 'off') {
+    return null;
+  }
+  if (!file) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('MCP_AUDIT_LOG_FILE must be set in production: set it to an absolute path, or to "off" to run without an audit log');
+    }
+    return null;
+  }
+  return {
+    file: resolve(file),
+    maxBytes: Number(process.env.MCP_AUDIT_LOG_MAX_BYTES) || 10 * 1024 * 1024,
+    maxFiles: Number(process.env.MCP_AUDIT_LOG_MAX_FILES) || 10
+  };
+}
+
+async function fileSize(path: string): Promise<number> {
+  try {
+    return (await stat(path)).size;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return 0;
+    }
+    throw error;
+  }
+}
+
+// A line cut short, e.g. by a crash mid-write, is skipped rather than failing the query
+function parseRecord(line: string): AuditRecord | null {
+  try {
+    return JSON.parse(line) as AuditRecord;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Append-only JSONL audit log with size-based rotation. Writes are queued so
+ * records are never interleaved or lost during rotation.
+ */
+export class AuditLog {
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(readonly config: AuditLogConfig) {}
+
+  write(record: AuditRecord): Promise<void> {
+    const line = `${JSON.stringify(record)}\n`;
+    this.queue = this.queue
+      .then(() => this.append(line))
+      .catch(error => console.error('[Audit Log] Failed to write audit record:', error));
+    return this.queue;
+  }
+
+  /**
+   * Records matching the query, newest first, across the active and rotated files
+   */
+  async query(query: AuditQuery = {}): Promise<AuditRecord[]> {
+    await this.queue;
+    const limit = query.limit ?? 100;
+    const since = query.since ? Date.parse(query.since) : -Infinity;
+    const until = query.until ? Date.parse(query.until) : Infinity;
+
+    const matches: AuditRecord[] = [];
+    for (let index = 0; index <= this.config.maxFiles && matches.length < limit; index++) {
+      let contents: string;
+      try {
+        contents = await readFile(this.rotatedPath(index), 'utf8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          continue;
+        }
+        throw error;
+      }
+
+      const lines = contents.split('\n').filter(Boolean).reverse();
+      for (const line of lines) {
+        const record = parseRecord(line);
+        if (!record) {
+          continue;
+        }
+        const time = Date.parse(record.timestamp);
+        if (
+          (!query.eventId || record.eventId === query.eventId) &&
+          (!query.client || record.client.name === query.client || record.client.clientInfo?.name === query.client) &&
+          (!query.tool || record.tool === query.tool) &&
+          time >= since && time <= until
+        ) {
+          matches.push(record);
+          if (matches.length >= limit) {
+            break;
+          }
+        }
+      }
+    }
+    return matches;
+  }
+
+  private rotatedPath(index: number): string {
+    return index === 0 ? this.config.file : `${this.config.file}.${index}`;
+  }
+
+  private async append(line: string): Promise<void> {
+    const size = await fileSize(this.config.file);
+    if (size > 0 && size + Buffer.byteLength(line) > this.config.maxBytes) {
+      await this.rotate();
+    } else if (size === 0) {
+      await mkdir(dirname(this.config.file), { recursive: true });
+    }
+    await appendFile(this.config.file, line, 'utf8');
+  }
+
+  private async rotate(): Promise<void> {
+    await rm(this.rotatedPath(this.config.maxFiles), { force: true });
+    for (let index = this.config.maxFiles - 1; index >= 0; index--) {
+      const from = this.rotatedPath(index);
+      if (await fileSize(from) > 0) {
+        await rename(from, this.rotatedPath(index + 1));
+      }
+    }
+  }
+}
@@ -0,0 +1,198 @@
+import type { Evaluation, EventEvaluationsData } from '../types/index.js';
+import { describeSelection, selectEvaluations, type EvaluationSelection } from './evaluation-selection.js';
+import { groupBy, krippendorffAlphaInterval, mean, round, standardDeviation } from './statistics.js';
+
+export interface ReviewerCalibration {
+  reviewerId: string;
+  reviewerName?: string;
+  evaluationCount: number;
+  scoreCount: number;
+  meanNormalizedScore: number | null;
+  standardDeviation: number | null;
+  meanOverallScore: number | null;
+  meanConfidence: number | null;
+  /** Average distance from the panel mean on the same application and criterion (normalized units) */
+  bias: number | null;
+  /** Bias expressed in panel standard deviations */
+  zOffset: number | null;
+  comparedScores: number;
+  recommendationDisagreementRate: number | null;
+  comparedRecommendations: number;
+}
+
+export interface CriterionAgreement {
+  criteriaId: string;
+  criteriaName: string;
+  criteriaCategory: string;
+  krippendorffAlpha: number | null;
+  ratedApplications: number;
+  multiplyRatedApplications: number;
+}
+
+export interface CalibratedApplicationScore {
+  applicationId: string;
+  evaluationCount: number;
+  rawScore: number | null;
+  calibratedScore: number | null;
+}
+
+export interface ReviewerCalibrationReport {
+  eventId: string;
+  panel: {
+    reviewerCount: number;
+    evaluationCount: number;
+    meanNormalizedScore: number | null;
+    standardDeviation: number | null;
+  };
+  reviewers: ReviewerCalibration[];
+  criteria: CriterionAgreement[];
+  applications: CalibratedApplicationScore[];
+  metadata: {
+    generatedAt: string;
+    method: string;
+  };
+}
+
+interface ScoredItem {
+  reviewerId: string;
+  applicationId: string;
+  criteriaId: string;
+  normalizedScore: number;
+}
+
+function flattenScores(evaluations: Evaluation[]): ScoredItem[] {
+  return evaluations.flatMap(evaluation => evaluation.scores.map(score => ({
+    reviewerId: evaluation.reviewerId,
+    applicationId: evaluation.applicationId,
+    criteriaId: score.criteriaId,
+    normalizedScore: score.normalizedScore
+  })));
+}
+
+/**
+ * Most common recommendation per application, or null on a tie
+ */
+function majorityRecommendations(evaluations: Evaluation[]): Map<string, string | null> {
+  const majorities = new Map<string, string | null>();
+  for (const [applicationId, group] of groupBy(evaluations.filter(evaluation => evaluation.recommendation), evaluation => evaluation.applicationId)) {
+    if (group.length < 2) {
+      continue;
+    }
+    const counts = [...groupBy(group, evaluation => evaluation.recommendation!).entries()]
+      .map(([recommendation, votes]) => ({ recommendation, votes: votes.length }))
+      .sort((a, b) => b.votes - a.votes);
+    majorities.set(applicationId, counts.length > 1 && counts[0].votes === counts[1].votes ? null : counts[0].recommendation);
+  }
+  return majorities;
+}
+
+/**
+ * Compute reviewer bias, spread and recommendation disagreement, per-criterion
+ * inter-rater agreement, and bias-adjusted scores for each application.
+ *
+ * Bias is measured against other reviewers of the same application and
+ * criterion, so reviewers are not penalised for being assigned weaker applications.
+ * Only completed evaluations form the panel unless `includeDrafts` is set.
+ */
+export function computeReviewerCalibration(data: EventEvaluationsData, options: EvaluationSelection = {}): ReviewerCalibrationReport {
+  const { evaluations } = selectEvaluations(data, options);
+  const items = flattenScores(evaluations);
+  const panelScores = items.map(item => item.normalizedScore);
+  const panelDeviation = standardDeviation(panelScores);
+
+  // Deviation of each score from the mean of its application/criterion cell
+  const deviations = new Map<string, number[]>();
+  for (const cell of groupBy(items, item => `${item.applicationId}\u0000${item.criteriaId}`).values()) {
+    if (cell.length < 2) {
+      continue;
+    }
+    const cellMean = mean(cell.map(item => item.normalizedScore))!;
+    for (const item of cell) {
+      const reviewerDeviations = deviations.get(item.reviewerId) ?? [];
+      reviewerDeviations.push(item.normalizedScore - cellMean);
+      deviations.set(item.reviewerId, reviewerDeviations);
+    }
+  }
+
+  const majorities = majorityRecommendations(evaluations);
+
+  const reviewers: ReviewerCalibration[] = [...groupBy(evaluations, evaluation => evaluation.reviewerId).entries()]
+    .map(([reviewerId, reviewerEvaluations]) => {
+      const scores = reviewerEvaluations.flatMap(evaluation => evaluation.scores.map(score => score.normalizedScore));
+      const reviewerDeviations = deviations.get(reviewerId) ?? [];
+      const bias = mean(reviewerDeviations);
+
+      const compared = reviewerEvaluations.filter(evaluation =>
+        evaluation.recommendation && majorities.get(evaluation.applicationId)
+      );
+      const disagreements = compared.filter(evaluation => evaluation.recommendation !== majorities.get(evaluation.applicationId));
+
+      return {
+        reviewerId,
+        reviewerName: reviewerEvaluations[0].reviewer.name ?? undefined,
+        evaluationCount: reviewerEvaluations.length,
+        scoreCount: scores.length,
+        meanNormalizedScore: round(mean(scores)),
+        standardDeviation: scores.length ? round(standardDeviation(scores)) : null,
+        meanOverallScore: round(mean(reviewerEvaluations.flatMap(evaluation => evaluation.overallScore ?? []))),
+        meanConfidence: round(mean(reviewerEvaluations.flatMap(evaluation => evaluation.confidence ?? []))),
+        bias: round(bias),
+        zOffset: bias !== null && panelDeviation > 0 ? round(bias / panelDeviation) : null,
+        comparedScores: reviewerDeviations.length,
+        recommendationDisagreementRate: compared.length ? round(disagreements.length / compared.length) : null,
+        comparedRecommendations: compared.length
+      };
+    })
+    .sort((a, b) => (b.zOffset ?? 0) - (a.zOffset ?? 0) || a.reviewerId.localeCompare(b.reviewerId));
+
+  const criteria: CriterionAgreement[] = [...groupBy(
+    evaluations.flatMap(evaluation => evaluation.scores.map(score => ({ ...score, applicationId: evaluation.applicationId }))),
+    score => score.criteriaId
+  ).entries()].map(([criteriaId, scores]) => {
+    const units = [...groupBy(scores, score => score.applicationId).values()].map(unit => unit.map(score => score.score));
+    return {
+      criteriaId,
+      criteriaName: scores[0].criteriaName,
+      criteriaCategory: scores[0].criteriaCategory,
+      krippendorffAlpha: round(krippendorffAlphaInterval(units)),
+      ratedApplications: units.length,
+      multiplyRatedApplications: units.filter(unit => unit.length >= 2).length
+    };
+  });
+
+  const biasByReviewer = new Map(reviewers.map(reviewer => [reviewer.reviewerId, reviewer.bias ?? 0]));
+  const applications: CalibratedApplicationScore[] = [...groupBy(evaluations, evaluation => evaluation.applicationId).entries()]
+    .map(([applicationId, applicationEvaluations]) => {
+      const scored = applicationEvaluations
+        .map(evaluation => ({
+          reviewerId: evaluation.reviewerId,
+          score: mean(evaluation.scores.map(score => score.normalizedScore))
+        }))
+        .filter((entry): entry is { reviewerId: string; score: number } => entry.score !== null);
+
+      return {
+        applicationId,
+        evaluationCount: applicationEvaluations.length,
+        rawScore: round(mean(scored.map(entry => entry.score))),
+        calibratedScore: round(mean(scored.map(entry => entry.score - (biasByReviewer.get(entry.reviewerId) ?? 0))))
+      };
+    })
+    .sort((a, b) => (b.calibratedScore ?? -Infinity) - (a.calibratedScore ?? -Infinity) || a.applicationId.localeCompare(b.applicationId));
+
+  return {
+    eventId: data.eventId,
+    panel: {
+      reviewerCount: reviewers.length,
+      evaluationCount: evaluations.length,
+      meanNormalizedScore: round(mean(panelScores)),
+      standardDeviation: panelScores.length ? round(panelDeviation) : null
+    },
+    reviewers,
+    criteria,
+    applications,
+    metadata: {
+      generatedAt: new Date().toISOString(),
+      method: `${describeSelection(options)} Bias is the mean deviation of a reviewer's normalized scores from the panel mean on the same application and criterion; zOffset divides it by the panel standard deviation. Agreement uses Krippendorff's alpha (interval) on raw scores. Calibrated scores subtract each reviewer's bias.`
+    }
+  };
+}
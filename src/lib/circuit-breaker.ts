@@ -0,0 +1,93 @@
+import { LocalizedError } from './i18n.js';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  resetTimeoutMs: number;
+}
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  retryAt: string | null;
+}
+
+/**
+ * Fails fast once upstream has failed `failureThreshold` times in a row.
+ *
+ * After `resetTimeoutMs` a single trial call is let through (half-open); its
+ * outcome decides whether the circuit closes again or stays open.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  async execute<T>(operation: () => Promise<T>, isFailure: (result: T) => boolean = () => false): Promise<T> {
+    this.beforeCall();
+
+    let result: T;
+    try {
+      result = await operation();
+    } catch (error) {
+      this.recordFailure();
+      throw error;
+    }
+
+    if (isFailure(result)) {
+      this.recordFailure();
+    } else {
+      this.recordSuccess();
+    }
+    return result;
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+      retryAt: this.openedAt ? new Date(this.openedAt + this.options.resetTimeoutMs).toISOString() : null
+    };
+  }
+
+  private beforeCall(): void {
+    if (this.state === 'closed') {
+      return;
+    }
+
+    const retryAt = (this.openedAt ?? 0) + this.options.resetTimeoutMs;
+    if (this.state === 'open' && Date.now() >= retryAt) {
+      this.state = 'half-open';
+    }
+
+    if (this.state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+
+    throw new LocalizedError('errors.circuitOpen', { failures: String(this.consecutiveFailures), retryAt: new Date(retryAt).toISOString() });
+  }
+
+  private recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  private recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+}
@@ -0,0 +1,191 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { readFileSync, statSync } from 'node:fs';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { getDefaultLocale, translate, type Locale } from './i18n.js';
+
+const ANY = '*';
+
+interface ClientTokenEntry {
+  name: string;
+  /** `sha256:<hex>` digest of the bearer token */
+  secretHash: string;
+  /** Tool names the token may list and call, or ["*"] */
+  tools: string[];
+  /** Event IDs the token may read, or ["*"] */
+  events: string[];
+  /** ISO 8601 timestamp after which the token is rejected */
+  expiresAt?: string;
+}
+
+/**
+ * Authenticated caller and what it may access. A null allowlist means unrestricted.
+ */
+export interface ClientIdentity {
+  name: string;
+  tools: Set<string> | null;
+  eventIds: Set<string> | null;
+  expiresAt?: Date;
+}
+
+export type AuthenticationResult =
+  | { ok: true; client: ClientIdentity }
+  | { ok: false; reason: 'invalid' | 'expired' };
+
+function toAllowlist(values: string[]): Set<string> | null {
+  return values.includes(ANY) ? null : new Set(values);
+}
+
+function parseEntry(entry: ClientTokenEntry, file: string): ClientIdentity & { digest: Buffer } {
+  const [algorithm, hex] = (entry.secretHash ?? '').split(':');
+  if (!entry.name || algorithm !== 'sha256' || !/^[0-9a-f]{64}$/i.test(hex ?? '')) {
+    throw new Error(`Invalid client token entry "${entry.name ?? '(unnamed)'}" in ${file}: expected a name and secretHash "sha256:<hex>"`);
+  }
+  if (!Array.isArray(entry.tools) || !Array.isArray(entry.events)) {
+    throw new Error(`Client token "${entry.name}" in ${file} must list tools and events (use ["*"] for all)`);
+  }
+  const expiresAt = entry.expiresAt ? new Date(entry.expiresAt) : undefined;
+  if (expiresAt && Number.isNaN(expiresAt.getTime())) {
+    throw new Error(`Client token "${entry.name}" in ${file} has an invalid expiresAt: ${entry.expiresAt}`);
+  }
+
+  return {
+    name: entry.name,
+    tools: toAllowlist(entry.tools),
+    eventIds: toAllowlist(entry.events),
+    expiresAt,
+    digest: Buffer.from(hex, 'hex')
+  };
+}
+
+/**
+ * Client tokens loaded from the JSON file named by MCP_CLIENT_TOKENS_FILE:
+ *
+ *   { "tokens": [{ "name": "partner-a", "secretHash": "sha256:…", "tools": ["*"], "events": ["evt_1"], "expiresAt": "2027-01-01T00:00:00Z" }] }
+ *
+ * The file is reloaded when it changes, so a token can be revoked by
+ * removing its entry without restarting the server.
+ */
+export class ClientTokenRegistry {
+  private tokens: Array<ClientIdentity & { digest: Buffer }> = [];
+  private loadedMtimeMs = -1;
+
+  constructor(private file: string) {
+    this.reloadIfChanged();
+  }
+
+  get size(): number {
+    return this.tokens.length;
+  }
+
+  authenticate(token: string): AuthenticationResult {
+    try {
+      this.reloadIfChanged();
+    } catch (error) {
+      // Keep serving the last valid registry rather than locking everyone out
+      console.error('[Client Tokens] Failed to reload token registry:', error);
+    }
+
+    const digest = createHash('sha256').update(token).digest();
+    const entry = this.tokens.find(candidate => timingSafeEqual(candidate.digest, digest));
+    if (!entry) {
+      return { ok: false, reason: 'invalid' };
+    }
+    if (entry.expiresAt && entry.expiresAt.getTime() <= Date.now()) {
+      return { ok: false, reason: 'expired' };
+    }
+
+    const { digest: _digest, ...client } = entry;
+    return { ok: true, client };
+  }
+
+  private reloadIfChanged(): void {
+    const { mtimeMs } = statSync(this.file);
+    if (mtimeMs === this.loadedMtimeMs) {
+      return;
+    }
+
+    const raw = JSON.parse(readFileSync(this.file, 'utf8')) as { tokens?: ClientTokenEntry[] };
+    const tokens = (raw.tokens ?? []).map(entry => parseEntry(entry, this.file));
+    const names = new Set<string>();
+    for (const { name } of tokens) {
+      if (names.has(name)) {
+        throw new Error(`Duplicate client token name "${name}" in ${this.file}`);
+      }
+      names.add(name);
+    }
+
+    this.tokens = tokens;
+    this.loadedMtimeMs = mtimeMs;
+  }
+}
+
+/** Tools that affect every client; only granted by name, never by "*" or without client authentication */
+export const ADMIN_TOOLS = new Set(['invalidate_cache']);
+
+export function canUseTool(client: ClientIdentity | undefined, tool: string): boolean {
+  if (ADMIN_TOOLS.has(tool)) {
+    return Boolean(client?.tools?.has(tool));
+  }
+  return !client?.tools || client.tools.has(tool);
+}
+
+export function canAccessEvent(client: ClientIdentity | undefined, eventId: string): boolean {
+  return !client?.eventIds || client.eventIds.has(eventId);
+}
+
+/**
+ * Why a tool call is outside the client's scope, or null when it is allowed.
+ * Admin tools need an authenticated client granted them by name. Tools that act
+ * on all events when no eventId is given require an unrestricted token.
+ */
+export function getToolCallDenial(
+  client: ClientIdentity | undefined,
+  tool: string,
+  eventId: unknown,
+  locale: Locale = getDefaultLocale()
+): string | null {
+  if (!client) {
+    return canUseTool(client, tool) ? null : translate(locale, 'access.adminTool', { tool });
+  }
+  if (!canUseTool(client, tool)) {
+    return translate(locale, 'access.toolDenied', { client: client.name, tool });
+  }
+  if (typeof eventId === 'string' && eventId && !canAccessEvent(client, eventId)) {
+    return translate(locale, 'access.eventDenied', { client: client.name, eventId });
+  }
+  if (tool === 'invalidate_cache' && !eventId && client.eventIds) {
+    return translate(locale, 'access.eventIdRequired', { client: client.name, tool });
+  }
+  return null;
+}
+
+export function authorizeToolCall(client: ClientIdentity | undefined, tool: string, eventId: unknown, locale?: Locale): void {
+  const denial = getToolCallDenial(client, tool, eventId, locale);
+  if (denial) {
+    throw new McpError(ErrorCode.InvalidRequest, denial);
+  }
+}
+
+/**
+ * Resources and prompts expose the same data as tools, so a client may only
+ * read them when it may use every one of those tools
+ */
+export function canReadData(client: ClientIdentity | undefined, tools: string[]): boolean {
+  return tools.every(tool => canUseTool(client, tool));
+}
+
+export function authorizeDataAccess(client: ClientIdentity | undefined, target: string, tools: string[], eventId?: string): void {
+  const denied = tools.find(tool => !canUseTool(client, tool));
+  if (client && denied) {
+    throw new McpError(ErrorCode.InvalidRequest, translate(getDefaultLocale(), 'access.dataDenied', { client: client.name, target, tool: denied }));
+  }
+  if (eventId) {
+    authorizeEventAccess(client, eventId);
+  }
+}
+
+export function authorizeEventAccess(client: ClientIdentity | undefined, eventId: string): void {
+  if (client && !canAccessEvent(client, eventId)) {
+    throw new McpError(ErrorCode.InvalidRequest, translate(getDefaultLocale(), 'access.eventDenied', { client: client.name, eventId }));
+  }
+}
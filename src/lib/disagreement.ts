@@ -0,0 +1,171 @@
+import type { Evaluation, EventEvaluationsData } from '../types/index.js';
+import { describeSelection, selectEvaluations, type EvaluationSelection } from './evaluation-selection.js';
+import { groupBy, round, standardDeviation } from './statistics.js';
+
+export interface DisagreementOptions extends EvaluationSelection {
+  scoreSpreadThreshold?: number;
+  lowConfidenceThreshold?: number;
+  limit?: number;
+}
+
+export interface ContestedCriterion {
+  criteriaId: string;
+  criteriaName: string;
+  standardDeviation: number;
+  scores: Array<{ reviewerId: string; score: number; normalizedScore: number; reasoning?: string }>;
+}
+
+export interface ReviewerPosition {
+  reviewerId: string;
+  reviewerName?: string;
+  recommendation?: string;
+  confidence?: number;
+  overallScore?: number;
+  overallComments?: string;
+  comments: Array<{ questionKey?: string; comment: string }>;
+}
+
+export interface ContestedApplication {
+  applicationId: string;
+  disagreementScore: number;
+  evaluationCount: number;
+  reasons: string[];
+  contestedCriteria: ContestedCriterion[];
+  recommendations: Record<string, number>;
+  lowConfidenceReviewers: string[];
+  reviewers: ReviewerPosition[];
+}
+
+export interface ContestedApplicationsReport {
+  eventId: string;
+  contested: ContestedApplication[];
+  totalContested: number;
+  applicationsReviewed: number;
+  thresholds: { scoreSpreadThreshold: number; lowConfidenceThreshold: number };
+  metadata: {
+    generatedAt: string;
+    method: string;
+  };
+}
+
+function toReviewerPosition(evaluation: Evaluation): ReviewerPosition {
+  return {
+    reviewerId: evaluation.reviewerId,
+    reviewerName: evaluation.reviewer.name ?? undefined,
+    recommendation: evaluation.recommendation ?? undefined,
+    confidence: evaluation.confidence ?? undefined,
+    overallScore: evaluation.overallScore ?? undefined,
+    overallComments: evaluation.overallComments ?? undefined,
+    // Private comments are never surfaced outside the review team
+    comments: evaluation.comments
+      .filter(comment => !comment.isPrivate)
+      .map(comment => ({ questionKey: comment.questionKey ?? undefined, comment: comment.comment }))
+  };
+}
+
+function analyzeApplication(
+  applicationId: string,
+  evaluations: Evaluation[],
+  scoreSpreadThreshold: number,
+  lowConfidenceThreshold: number
+): ContestedApplication | null {
+  const reasons: string[] = [];
+
+  const scoresByCriterion = groupBy(
+    evaluations.flatMap(evaluation => evaluation.scores.map(score => ({ ...score, reviewerId: evaluation.reviewerId }))),
+    score => score.criteriaId
+  );
+  const criterionSpreads = [...scoresByCriterion.values()]
+    .filter(scores => scores.length >= 2)
+    .map(scores => ({
+      criteriaId: scores[0].criteriaId,
+      criteriaName: scores[0].criteriaName,
+      standardDeviation: standardDeviation(scores.map(score => score.normalizedScore)),
+      scores: scores.map(score => ({
+        reviewerId: score.reviewerId,
+        score: score.score,
+        normalizedScore: score.normalizedScore,
+        reasoning: score.reasoning ?? undefined
+      }))
+    }));
+  const contestedCriteria = criterionSpreads
+    .filter(criterion => criterion.standardDeviation >= scoreSpreadThreshold)
+    .sort((a, b) => b.standardDeviation - a.standardDeviation)
+    .map(criterion => ({ ...criterion, standardDeviation: round(criterion.standardDeviation)! }));
+  if (contestedCriteria.length > 0) {
+    reasons.push(`High score spread on ${contestedCriteria.map(criterion => criterion.criteriaName).join(', ')}`);
+  }
+
+  const recommendations: Record<string, number> = {};
+  for (const evaluation of evaluations) {
+    if (evaluation.recommendation) {
+      recommendations[evaluation.recommendation] = (recommendations[evaluation.recommendation] ?? 0) + 1;
+    }
+  }
+  const recommendationCount = Object.values(recommendations).reduce((total, count) => total + count, 0);
+  const majorityShare = recommendationCount ? Math.max(...Object.values(recommendations)) / recommendationCount : 1;
+  const acceptVersusReject = Boolean(recommendations.ACCEPT && recommendations.REJECT);
+  if (Object.keys(recommendations).length > 1) {
+    reasons.push(acceptVersusReject ? 'Reviewers both ACCEPT and REJECT' : `Mixed recommendations: ${Object.keys(recommendations).join(', ')}`);
+  }
+
+  const lowConfidenceReviewers = evaluations
+    .filter(evaluation => evaluation.confidence !== undefined && evaluation.confidence !== null && evaluation.confidence <= lowConfidenceThreshold)
+    .map(evaluation => evaluation.reviewerId);
+  if (lowConfidenceReviewers.length > 0) {
+    reasons.push(`Low reviewer confidence (<= ${lowConfidenceThreshold}) from ${lowConfidenceReviewers.length} reviewer(s)`);
+  }
+
+  if (reasons.length === 0) {
+    return null;
+  }
+
+  const disagreementScore =
+    Math.max(0, ...criterionSpreads.map(criterion => criterion.standardDeviation)) +
+    (1 - majorityShare) +
+    (acceptVersusReject ? 0.5 : 0) +
+    0.5 * (lowConfidenceReviewers.length / evaluations.length);
+
+  return {
+    applicationId,
+    disagreementScore: round(disagreementScore)!,
+    evaluationCount: evaluations.length,
+    reasons,
+    contestedCriteria,
+    recommendations,
+    lowConfidenceReviewers,
+    reviewers: evaluations.map(toReviewerPosition)
+  };
+}
+
+/**
+ * Flag applications whose reviewers disagree: high spread of normalized scores
+ * on any criterion, mixed recommendations, or low reviewer confidence.
+ * Applications with a single evaluation are only flagged for low confidence.
+ * Only completed evaluations are compared unless `includeDrafts` is set.
+ */
+export function findContestedApplications(
+  data: EventEvaluationsData,
+  options: DisagreementOptions = {}
+): ContestedApplicationsReport {
+  const scoreSpreadThreshold = options.scoreSpreadThreshold ?? 0.2;
+  const lowConfidenceThreshold = options.lowConfidenceThreshold ?? 2;
+
+  const byApplication = groupBy(selectEvaluations(data, options).evaluations, evaluation => evaluation.applicationId);
+  const contested = [...byApplication.entries()]
+    .map(([applicationId, evaluations]) => analyzeApplication(applicationId, evaluations, scoreSpreadThreshold, lowConfidenceThreshold))
+    .filter((application): application is ContestedApplication => application !== null)
+    .sort((a, b) => b.disagreementScore - a.disagreementScore || a.applicationId.localeCompare(b.applicationId));
+
+  return {
+    eventId: data.eventId,
+    contested: options.limit !== undefined ? contested.slice(0, Math.max(options.limit, 0)) : contested,
+    totalContested: contested.length,
+    applicationsReviewed: byApplication.size,
+    thresholds: { scoreSpreadThreshold, lowConfidenceThreshold },
+    metadata: {
+      generatedAt: new Date().toISOString(),
+      method: `${describeSelection(options)} disagreementScore = max criterion standard deviation of normalized scores + (1 - majority recommendation share) + 0.5 if both ACCEPT and REJECT + 0.5 × share of low-confidence reviewers. Private comments are excluded.`
+    }
+  };
+}
@@ -0,0 +1,288 @@
+import type { Application, EventApplicationsData } from '../types/index.js';
+
+const SHINGLE_SIZE = 3;
+const SIGNATURE_SIZE = 128;
+const LSH_BANDS = 32;
+const LSH_ROWS = SIGNATURE_SIZE / LSH_BANDS;
+
+export interface DuplicateDetectionOptions {
+  questionKeys?: string[];
+  threshold?: number;
+  minAnswerLength?: number;
+}
+
+export interface QuestionSimilarity {
+  questionKey: string;
+  maxSimilarity: number;
+  pairs: Array<{ applicationIds: [string, string]; similarity: number }>;
+}
+
+export interface IdentitySignal {
+  applicationIds: [string, string];
+  signal: 'email' | 'name';
+  detail: string;
+}
+
+export interface DuplicateCluster {
+  applicationIds: string[];
+  maxSimilarity: number;
+  questions: QuestionSimilarity[];
+  identitySignals: IdentitySignal[];
+}
+
+export interface DuplicateReport {
+  eventId: string;
+  clusters: DuplicateCluster[];
+  applicationsCompared: number;
+  options: Required<Omit<DuplicateDetectionOptions, 'questionKeys'>> & { questionKeys: string[] | null };
+  metadata: {
+    generatedAt: string;
+    method: string;
+  };
+}
+
+function fold(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+function shingles(text: string): Set<string> {
+  const words = fold(text).match(/[\p{L}\p{N}]+/gu) ?? [];
+  const result = new Set<string>();
+  if (words.length < SHINGLE_SIZE) {
+    result.add(words.join(' '));
+    return result;
+  }
+  for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+    result.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return result;
+}
+
+// 32-bit FNV-1a
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+// Fixed odd multipliers and offsets so signatures are stable between runs
+const HASH_COEFFICIENTS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => ({
+  a: (hashString(`a${i}`) | 1) >>> 0,
+  b: hashString(`b${i}`)
+}));
+
+function minHash(shingleSet: Set<string>): number[] {
+  const signature = new Array<number>(SIGNATURE_SIZE).fill(Infinity);
+  for (const shingle of shingleSet) {
+    const base = hashString(shingle);
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const { a, b } = HASH_COEFFICIENTS[i];
+      const value = (Math.imul(a, base ^ b) + b) >>> 0;
+      if (value < signature[i]) {
+        signature[i] = value;
+      }
+    }
+  }
+  return signature;
+}
+
+function estimateSimilarity(left: number[], right: number[]): number {
+  let equal = 0;
+  for (let i = 0; i < SIGNATURE_SIZE; i++) {
+    if (left[i] === right[i]) {
+      equal++;
+    }
+  }
+  return equal / SIGNATURE_SIZE;
+}
+
+/**
+ * Candidate pairs from locality-sensitive hashing: signatures sharing any band
+ */
+function candidatePairs(signatures: Map<string, number[]>): Array<[string, string]> {
+  const pairs = new Map<string, [string, string]>();
+  for (let band = 0; band < LSH_BANDS; band++) {
+    const buckets = new Map<string, string[]>();
+    for (const [applicationId, signature] of signatures) {
+      const key = signature.slice(band * LSH_ROWS, (band + 1) * LSH_ROWS).join(',');
+      const bucket = buckets.get(key) ?? [];
+      bucket.push(applicationId);
+      buckets.set(key, bucket);
+    }
+    for (const bucket of buckets.values()) {
+      for (let i = 0; i < bucket.length; i++) {
+        for (let j = i + 1; j < bucket.length; j++) {
+          const pair: [string, string] = bucket[i] < bucket[j] ? [bucket[i], bucket[j]] : [bucket[j], bucket[i]];
+          pairs.set(pair.join('\u0000'), pair);
+        }
+      }
+    }
+  }
+  return [...pairs.values()];
+}
+
+/**
+ * Canonical form of an email address: lowercase, without +tags, and for
+ * Gmail without dots, so aliases of one mailbox compare equal.
+ */
+function normalizeEmail(email: string): string | null {
+  const [local, domain] = email.trim().toLowerCase().split('@');
+  if (!local || !domain) {
+    return null;
+  }
+  const canonicalDomain = domain === 'googlemail.com' ? 'gmail.com' : domain;
+  let canonicalLocal = local.split('+')[0];
+  if (canonicalDomain === 'gmail.com') {
+    canonicalLocal = canonicalLocal.replace(/\./g, '');
+  }
+  return `${canonicalLocal}@${canonicalDomain}`;
+}
+
+// Mailbox with digits and separators removed from the local part, e.g. "jane.doe92@x.org" -> "janedoe@x.org"
+function emailStem(email: string): string | null {
+  const normalized = normalizeEmail(email);
+  if (!normalized) {
+    return null;
+  }
+  const [local, domain] = normalized.split('@');
+  const stem = local.replace(/[^a-z]/g, '');
+  return stem.length >= 4 ? `${stem}@${domain}` : null;
+}
+
+function normalizeName(name: string): string {
+  return (fold(name).match(/\p{L}+/gu) ?? []).sort().join(' ');
+}
+
+function identitySignals(applications: Application[]): IdentitySignal[] {
+  const signals: IdentitySignal[] = [];
+  const groups: Array<{ signal: IdentitySignal['signal']; detail: string; key: (application: Application) => string | null }> = [
+    { signal: 'email', detail: 'Same mailbox after normalizing case, +tags and Gmail dots', key: application => application.applicant?.email ? normalizeEmail(application.applicant.email) : null },
+    { signal: 'email', detail: 'Same email domain, local parts differ only by digits or separators', key: application => application.applicant?.email ? emailStem(application.applicant.email) : null },
+    { signal: 'name', detail: 'Same applicant name ignoring case, accents and word order', key: application => application.applicant?.name ? normalizeName(application.applicant.name) || null : null }
+  ];
+
+  for (const { signal, detail, key } of groups) {
+    const buckets = new Map<string, string[]>();
+    for (const application of applications) {
+      const value = key(application);
+      if (value) {
+        buckets.set(value, [...(buckets.get(value) ?? []), application.id]);
+      }
+    }
+    for (const ids of buckets.values()) {
+      for (let i = 0; i < ids.length; i++) {
+        for (let j = i + 1; j < ids.length; j++) {
+          signals.push({ applicationIds: [ids[i], ids[j]], signal, detail });
+        }
+      }
+    }
+  }
+  return signals;
+}
+
+class UnionFind {
+  private parents = new Map<string, string>();
+
+  find(id: string): string {
+    const parent = this.parents.get(id) ?? id;
+    if (parent === id) {
+      return id;
+    }
+    const root = this.find(parent);
+    this.parents.set(id, root);
+    return root;
+  }
+
+  union(left: string, right: string): void {
+    const leftRoot = this.find(left);
+    const rightRoot = this.find(right);
+    if (leftRoot !== rightRoot) {
+      this.parents.set(rightRoot, leftRoot);
+    }
+  }
+}
+
+/**
+ * Find clusters of applications with near-identical answers (MinHash over
+ * word shingles, per question) or matching applicant email/name patterns.
+ * Expects unredacted applications: masked or pseudonymized identities would
+ * match each other. The report only carries application IDs and question keys.
+ */
+export function detectDuplicateResponses(data: EventApplicationsData, options: DuplicateDetectionOptions = {}): DuplicateReport {
+  const threshold = options.threshold ?? 0.8;
+  const minAnswerLength = options.minAnswerLength ?? 50;
+  const keys = options.questionKeys?.length ? new Set(options.questionKeys) : null;
+
+  // questionKey -> applicationId -> signature
+  const signaturesByQuestion = new Map<string, Map<string, number[]>>();
+  for (const application of data.applications) {
+    for (const response of application.responses) {
+      if ((keys && !keys.has(response.questionKey)) || (response.answer ?? '').trim().length < minAnswerLength) {
+        continue;
+      }
+      const signatures = signaturesByQuestion.get(response.questionKey) ?? new Map<string, number[]>();
+      signatures.set(application.id, minHash(shingles(response.answer)));
+      signaturesByQuestion.set(response.questionKey, signatures);
+    }
+  }
+
+  const unionFind = new UnionFind();
+  const textPairs: Array<{ questionKey: string; applicationIds: [string, string]; similarity: number }> = [];
+  for (const [questionKey, signatures] of signaturesByQuestion) {
+    for (const [left, right] of candidatePairs(signatures)) {
+      const similarity = estimateSimilarity(signatures.get(left)!, signatures.get(right)!);
+      if (similarity >= threshold) {
+        textPairs.push({ questionKey, applicationIds: [left, right], similarity });
+        unionFind.union(left, right);
+      }
+    }
+  }
+
+  const signals = identitySignals(data.applications);
+  for (const signal of signals) {
+    unionFind.union(...signal.applicationIds);
+  }
+
+  const clusters = new Map<string, DuplicateCluster>();
+  const clusterFor = (applicationId: string) => {
+    const root = unionFind.find(applicationId);
+    const cluster = clusters.get(root) ?? { applicationIds: [], maxSimilarity: 0, questions: [], identitySignals: [] };
+    clusters.set(root, cluster);
+    return cluster;
+  };
+
+  for (const pair of textPairs) {
+    const cluster = clusterFor(pair.applicationIds[0]);
+    let question = cluster.questions.find(candidate => candidate.questionKey === pair.questionKey);
+    if (!question) {
+      question = { questionKey: pair.questionKey, maxSimilarity: 0, pairs: [] };
+      cluster.questions.push(question);
+    }
+    question.pairs.push({ applicationIds: pair.applicationIds, similarity: Math.round(pair.similarity * 1000) / 1000 });
+    question.maxSimilarity = Math.max(question.maxSimilarity, Math.round(pair.similarity * 1000) / 1000);
+    cluster.maxSimilarity = Math.max(cluster.maxSimilarity, question.maxSimilarity);
+  }
+  for (const signal of signals) {
+    clusterFor(signal.applicationIds[0]).identitySignals.push(signal);
+  }
+  for (const [root, cluster] of clusters) {
+    cluster.applicationIds = data.applications.map(application => application.id).filter(id => unionFind.find(id) === root).sort();
+    cluster.questions.sort((a, b) => b.maxSimilarity - a.maxSimilarity || a.questionKey.localeCompare(b.questionKey));
+  }
+
+  return {
+    eventId: data.eventId,
+    clusters: [...clusters.values()].sort((a, b) =>
+      b.maxSimilarity - a.maxSimilarity || b.applicationIds.length - a.applicationIds.length || a.applicationIds[0].localeCompare(b.applicationIds[0])
+    ),
+    applicationsCompared: data.applications.length,
+    options: { threshold, minAnswerLength, questionKeys: options.questionKeys ?? null },
+    metadata: {
+      generatedAt: new Date().toISOString(),
+      method: `Answers are split into ${SHINGLE_SIZE}-word shingles and compared per question with ${SIGNATURE_SIZE}-hash MinHash (estimated Jaccard similarity, LSH with ${LSH_BANDS} bands). Applications are clustered when any answer pair reaches the threshold or applicant email/name patterns match.`
+    }
+  };
+}
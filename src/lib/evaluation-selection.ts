@@ -0,0 +1,33 @@
+import type { Evaluation, EventEvaluationsData } from '../types/index.js';
+
+export interface EvaluationSelection {
+  /** Also use evaluations that are not completed: in-progress reviews and drafts */
+  includeDrafts?: boolean;
+  /** Reviewers whose evaluations are left out, such as the AI reviewer */
+  excludeReviewerIds?: string[];
+}
+
+function isCompleted(evaluation: Evaluation): boolean {
+  return evaluation.status === 'COMPLETED' || Boolean(evaluation.completedAt);
+}
+
+/** Sentence for the `metadata.method` of a report built from a selection */
+export function describeSelection(selection: EvaluationSelection): string {
+  return selection.includeDrafts
+    ? 'All evaluations are used, including drafts and in-progress ones.'
+    : 'Only completed evaluations are used.';
+}
+
+/**
+ * Evaluations an analysis should score: by default only completed ones, so
+ * in-progress scores and AI drafts never mix with the panel's final scores
+ */
+export function selectEvaluations(data: EventEvaluationsData, selection: EvaluationSelection = {}): EventEvaluationsData {
+  const excluded = new Set(selection.excludeReviewerIds ?? []);
+  return {
+    ...data,
+    evaluations: data.evaluations.filter(evaluation =>
+      (selection.includeDrafts || isCompleted(evaluation)) && !excluded.has(evaluation.reviewerId)
+    )
+  };
+}
@@ -0,0 +1,286 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { Response } from 'node-fetch';
+import type {
+  AiEvaluationDraft,
+  ApplicationQuestionsData,
+  Application,
+  Evaluation,
+  EventApplicationsData,
+  EventEvaluationsData,
+  TestConnectionData
+} from '../types/index.js';
+import { Pseudonymizer } from './redaction.js';
+import { generateSyntheticEvent, type SyntheticEvent, type SyntheticEventOptions } from './synthetic-data.js';
+
+/** live: real platform API; mock: fixtures and synthetic data, no network; record: live, saving scrubbed fixtures */
+export type UpstreamMode = 'live' | 'mock' | 'record';
+
+const UPSTREAM_MODES: UpstreamMode[] = ['live', 'mock', 'record'];
+
+export interface FixtureConfig {
+  mode: UpstreamMode;
+  /** Directory fixtures are read from in mock mode and written to in record mode */
+  dir: string;
+  /** Size of generated events in mock mode, for events without fixtures */
+  synthetic: SyntheticEventOptions;
+}
+
+type FixtureKind = 'test' | 'applications' | 'evaluations' | 'criteria' | 'questions';
+
+interface FixtureRoute {
+  kind: FixtureKind;
+  eventId?: string;
+}
+
+// Contact details an applicant may give in answers, when the questions payload does not flag them
+const CONTACT_QUESTION_TYPES = new Set(['EMAIL', 'PHONE', 'URL']);
+const CONTACT_KEY_PATTERN = /name|email|phone|telegram|whatsapp|twitter|linkedin|github|discord|wallet|address/i;
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+const URL_PATTERN = /https?:\/\/\S+/g;
+const PHONE_PATTERN = /\+?\d[\d\s().-]{7,}\d/g;
+const HANDLE_PATTERN = /(^|\s)@\w{2,}/g;
+
+function readCount(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? '', 10);
+  return Number.isNaN(value) || value < 0 ? fallback : value;
+}
+
+export function getFixtureConfig(): FixtureConfig {
+  const mode = (process.env.MCP_UPSTREAM_MODE || 'live') as UpstreamMode;
+  if (!UPSTREAM_MODES.includes(mode)) {
+    throw new Error(`MCP_UPSTREAM_MODE must be one of ${UPSTREAM_MODES.join(', ')}`);
+  }
+  return {
+    mode,
+    dir: process.env.MCP_FIXTURES_DIR || 'fixtures',
+    synthetic: {
+      applications: readCount('MCP_MOCK_APPLICATIONS', 24),
+      reviewers: Math.max(readCount('MCP_MOCK_REVIEWERS', 5), 1)
+    }
+  };
+}
+
+/**
+ * Fixture served for an upstream endpoint, ignoring its query string: the
+ * client re-applies filters and paging locally
+ */
+function parseFixtureRoute(endpoint: string): FixtureRoute | null {
+  const path = endpoint.split('?')[0];
+  if (path === '/test') {
+    return { kind: 'test' };
+  }
+  const match = /^\/events\/([^/]+)\/(applications|evaluations|criteria|questions)$/.exec(path);
+  return match ? { kind: match[2] as FixtureKind, eventId: match[1] } : null;
+}
+
+/**
+ * Path of a fixture file: <dir>/test.json or <dir>/events/<eventId>/<kind>.json
+ */
+function fixturePath(dir: string, route: FixtureRoute): string {
+  if (!route.eventId) {
+    return join(dir, `${route.kind}.json`);
+  }
+  // Encoded so an event ID cannot point outside the fixtures directory
+  const eventDir = encodeURIComponent(route.eventId).replace(/^\.+$/, dots => '%2E'.repeat(dots.length));
+  return join(dir, 'events', eventDir, `${route.kind}.json`);
+}
+
+async function readJson<T>(path: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(path, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * In-process stand-in for the platform API. Serves fixture files when they
+ * exist and deterministic synthetic data for any other event, so the server
+ * runs with no network. Draft submissions are acknowledged but not stored.
+ */
+export class MockPlatform {
+  private synthetic = new Map<string, SyntheticEvent>();
+
+  constructor(readonly config: FixtureConfig) {}
+
+  async respond(endpoint: string, method: 'GET' | 'POST', body?: string): Promise<Response> {
+    const route = parseFixtureRoute(endpoint);
+    if (!route) {
+      return jsonResponse(404, { success: false, error: `No mock route for ${method} ${endpoint}` });
+    }
+
+    if (method === 'POST') {
+      if (route.kind !== 'evaluations') {
+        return jsonResponse(405, { success: false, error: `No mock route for ${method} ${endpoint}` });
+      }
+      const draft = JSON.parse(body ?? '{}') as Partial<AiEvaluationDraft>;
+      return jsonResponse(200, {
+        success: true,
+        data: { id: `mock-draft-${randomUUID()}`, applicationId: draft.applicationId, status: 'DRAFT' }
+      });
+    }
+
+    const data = await readJson(fixturePath(this.config.dir, route)) ?? this.generate(route);
+    return jsonResponse(200, { success: true, data });
+  }
+
+  private generate(route: FixtureRoute): unknown {
+    if (route.kind === 'test' || !route.eventId) {
+      const data: TestConnectionData = {
+        success: true,
+        message: `Mock platform API (fixtures from ${this.config.dir}, synthetic data for other events)`,
+        timestamp: new Date().toISOString()
+      };
+      return data;
+    }
+
+    let event = this.synthetic.get(route.eventId);
+    if (!event) {
+      event = generateSyntheticEvent(route.eventId, this.config.synthetic);
+      this.synthetic.set(route.eventId, event);
+    }
+    return event[route.kind];
+  }
+}
+
+function scrubText(text: string): string {
+  return text
+    .replace(EMAIL_PATTERN, 'redacted@example.com')
+    .replace(URL_PATTERN, 'https://example.com/redacted')
+    .replace(PHONE_PATTERN, '[phone removed]')
+    .replace(HANDLE_PATTERN, '$1@redacted');
+}
+
+function scrubOptional(text: string | undefined): string | undefined {
+  return text === undefined || text === null ? text : scrubText(text);
+}
+
+/**
+ * Replaces personal data in recorded payloads before they are written:
+ * applicant and reviewer identities become stable pseudonyms, contact-info
+ * answers are replaced, and emails, URLs, phone numbers and handles are
+ * removed from free text. Application, criterion and question IDs are kept
+ * so recorded payloads still reference each other.
+ */
+class FixtureScrubber {
+  constructor(private pseudonymizer: Pseudonymizer) {}
+
+  applications(data: EventApplicationsData, contactKeys: Set<string>): EventApplicationsData {
+    return {
+      ...data,
+      applications: data.applications.map(application => ({
+        ...this.applicant(data.eventId, application),
+        responses: application.responses.map(response => {
+          if (!response.answer.trim()) {
+            return response;
+          }
+          const isContact = contactKeys.has(response.questionKey) ||
+            CONTACT_QUESTION_TYPES.has(response.questionType.toUpperCase()) ||
+            CONTACT_KEY_PATTERN.test(response.questionKey);
+          if (!isContact) {
+            return { ...response, answer: scrubText(response.answer) };
+          }
+          const isEmail = response.questionType.toUpperCase() === 'EMAIL' || /email/i.test(response.questionKey);
+          const pseudonym = this.pseudonymizer.pseudonym('applicant', data.eventId, application.applicant?.id ?? application.id);
+          return { ...response, answer: isEmail ? `${pseudonym}@example.com` : '[redacted]' };
+        })
+      }))
+    };
+  }
+
+  evaluations(data: EventEvaluationsData): EventEvaluationsData {
+    return {
+      ...data,
+      evaluations: data.evaluations.map(evaluation => this.evaluation(data.eventId, evaluation))
+    };
+  }
+
+  private applicant<T extends Pick<Application, 'userId' | 'applicant'>>(eventId: string, application: T): T {
+    const pseudonym = (id: string) => this.pseudonymizer.pseudonym('applicant', eventId, id);
+    const { applicant } = application;
+    return {
+      ...application,
+      userId: application.userId ? pseudonym(application.userId) : application.userId,
+      applicant: applicant && {
+        id: pseudonym(applicant.id),
+        name: applicant.name ? `Applicant ${pseudonym(applicant.id).slice(-6)}` : applicant.name,
+        email: applicant.email ? `${pseudonym(applicant.id)}@example.com` : applicant.email
+      }
+    };
+  }
+
+  private evaluation(eventId: string, evaluation: Evaluation): Evaluation {
+    const reviewerId = this.pseudonymizer.pseudonym('reviewer', eventId, evaluation.reviewerId);
+    return {
+      ...evaluation,
+      reviewerId,
+      reviewer: {
+        ...evaluation.reviewer,
+        id: reviewerId,
+        name: evaluation.reviewer.name ? `Reviewer ${reviewerId.slice(-6)}` : evaluation.reviewer.name
+      },
+      application: this.applicant(eventId, evaluation.application),
+      overallComments: scrubOptional(evaluation.overallComments),
+      scores: evaluation.scores.map(score => ({ ...score, reasoning: scrubOptional(score.reasoning) })),
+      comments: evaluation.comments.map(comment => ({ ...comment, comment: scrubText(comment.comment) }))
+    };
+  }
+}
+
+/**
+ * Record mode: saves successful upstream reads as fixtures for mock mode,
+ * with personal data scrubbed. Filtered or paged reads are not recorded, as
+ * they would replace the full payload with a subset.
+ */
+export class FixtureRecorder {
+  private scrubber: FixtureScrubber;
+
+  /** Set MCP_PSEUDONYM_SECRET to keep pseudonyms stable across recording runs */
+  constructor(readonly dir: string, pseudonymizer = new Pseudonymizer()) {
+    this.scrubber = new FixtureScrubber(pseudonymizer);
+  }
+
+  async record(endpoint: string, data: unknown): Promise<void> {
+    const route = parseFixtureRoute(endpoint);
+    if (!route || endpoint.includes('?')) {
+      return;
+    }
+
+    try {
+      const path = fixturePath(this.dir, route);
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, `${JSON.stringify(await this.scrub(route, data), null, 2)}\n`, 'utf8');
+      console.log(`[Fixtures] Recorded ${endpoint} to ${path}`);
+    } catch (error) {
+      console.error(`[Fixtures] Failed to record ${endpoint}:`, error);
+    }
+  }
+
+  private async scrub(route: FixtureRoute, data: unknown): Promise<unknown> {
+    switch (route.kind) {
+      case 'applications': {
+        // Recorded questions say exactly which answers are contact details
+        const questions = await readJson<ApplicationQuestionsData>(fixturePath(this.dir, { kind: 'questions', eventId: route.eventId }));
+        const contactKeys = new Set(questions?.questions.filter(question => question.isContactInfo).map(question => question.questionKey));
+        return this.scrubber.applications(data as EventApplicationsData, contactKeys);
+      }
+      case 'evaluations':
+        return this.scrubber.evaluations(data as EventEvaluationsData);
+      default:
+        return data;
+    }
+  }
+}
@@ -0,0 +1,171 @@
+export type Locale = 'en' | 'es';
+
+export const LOCALES: Locale[] = ['en', 'es'];
+
+export type MessageKey = keyof typeof en;
+
+const en = {
+  'tools.test_connection.description': 'Test connection to the FTC Platform API and verify the MCP server is working properly',
+  'tools.get_event_applications.description': 'Get applications for a specific event with complete data for AI analysis and ranking. Returns applicant information, responses to all questions, and metadata for evaluation. Supports filtering, field projection and cursor paging (pass `nextCursor` back as `cursor` to fetch the next page). With `locale`, question texts are returned in that language and answers written in another language are marked.',
+  'tools.get_event_evaluations.description': 'Get completed evaluations for applications in a specific event. Includes reviewer scores, comments, recommendations, and statistics for AI analysis of human evaluation patterns.',
+  'tools.get_evaluation_criteria.description': 'Get evaluation criteria categorized for AI understanding. Provides scoring rubrics, weights, and guidelines used by human reviewers for consistent AI application scoring.',
+  'tools.get_application_questions.description': 'Get application questions structure and metadata. Provides the complete question set, types, and requirements for understanding application data format and content. With `locale`, each question text is returned in that language only.',
+  'tools.get_reviewer_calibration.description': 'Analyze reviewer calibration for an event from completed evaluations by human reviewers. Reports each reviewer\'s mean and standard deviation, bias and z-score offset against the panel, and how often their recommendation disagrees with the majority; inter-rater agreement (Krippendorff\'s alpha) per criterion; and bias-adjusted scores per application.',
+  'tools.rank_applications.description': 'Rank an event\'s applications by a consistent weighted score computed from every completed evaluation by a human reviewer, using each criterion\'s weight and the event\'s category weights. Returns the ranking with a per-category breakdown and the number of evaluations behind each score.',
+  'tools.find_contested_applications.description': 'Find applications where reviewers strongly disagree and that need a second look: high score spread on any criterion, mixed recommendations (e.g. ACCEPT vs REJECT) or low reviewer confidence, among completed evaluations by human reviewers. Sorted by disagreement score, with the reviewers\' scores, reasoning and non-private comments.',
+  'tools.export_event_report.description': 'Export an event report of applications, selected question responses, per-criterion scores and the weighted ranking result as CSV, XLSX or a Markdown summary. The file is returned as an embedded resource (XLSX is base64-encoded).',
+  'tools.search_applications.description': 'Full-text search (BM25) across application answers for an event, in English and Spanish. Returns matching application IDs ranked by relevance with highlighted snippets. Use questionKeys to limit which questions are searched.',
+  'tools.detect_duplicate_responses.description': 'Detect near-duplicate and copy-paste answers across an event\'s applications using shingling/MinHash similarity per question, plus matching applicant email and name patterns. Returns clusters of suspiciously similar applications with a similarity score per question.',
+  'tools.audit_applications.description': 'Audit an event\'s applications against its current question set, independently of the upstream completionPercentage. Reports missing required answers, multiple-choice answers outside the allowed options or over maxOptions, empty contact fields, and answers to questions that are no longer asked, grouped by issue type. Contact answers are checked but never returned.',
+  'tools.plan_review_assignments.description': 'Report evaluation coverage per application and load per reviewer for an event, and suggest reviewer assignments so every application reaches a target number of evaluations. Suggestions go to the least-covered applications first and the least-loaded reviewers, never repeat a reviewer on an application and respect the given conflicts of interest. Nothing is assigned upstream.',
+  'tools.submit_ai_evaluation.description': 'Submit an AI evaluation draft for an application. Scores are checked against the event\'s active criteria and score ranges before being sent upstream as a DRAFT evaluation under the AI reviewer identity. Refuses to overwrite a completed evaluation. Use dryRun to get the exact payload without sending it.',
+  'tools.invalidate_cache.description': 'Admin tool: clear cached FTC Platform API responses for an event (or for all events when eventId is omitted) so the next call fetches fresh data. Only available to client tokens or OAuth scopes that grant it by name.',
+  'args.locale.description': 'Language for question texts and messages: en (English) or es (Spanish)',
+  'errors.unsupportedLocale': 'Unsupported locale: {locale} (expected one of {locales})',
+  'errors.unknownTool': 'Unknown tool: {tool}',
+  'errors.toolFailed': 'Failed to execute MCP tool: {tool}',
+  'errors.invalidArguments': 'Invalid arguments for tool {tool}: {issues}',
+  'errors.eventIdRequired': 'eventId is required',
+  'errors.invalidCursor': 'Invalid cursor: {cursor}',
+  'errors.invalidDate': 'Invalid date: {date}',
+  'errors.upstreamStatus': 'API request failed: {status} {statusText}\nResponse: {body}',
+  'errors.upstreamError': 'API returned error: {error}\nDetails: {details}',
+  'errors.upstreamNoData': 'API returned success but no data',
+  'errors.upstreamTimeout': 'API request timed out after {timeoutMs}ms: {url}',
+  'errors.upstreamPayload': 'Invalid upstream payload from {endpoint}: {issues}',
+  'errors.circuitOpen': 'Upstream API unavailable: circuit breaker is open after {failures} consecutive failures (retry after {retryAt})',
+  'errors.invalidAiEvaluation': 'Invalid AI evaluation:\n- {errors}',
+  'validation.required': 'Required',
+  'validation.invalidType': 'Expected {expected}, received {received}',
+  'validation.unrecognizedKeys': 'Unrecognized key(s) in object: {keys}',
+  'validation.invalidEnum': 'Invalid enum value. Expected {options}, received \'{received}\'',
+  'validation.empty': 'must not be empty',
+  'validation.isoDate': 'must be an ISO 8601 date',
+  'validation.numberMin': 'Number must be greater than or equal to {minimum}',
+  'validation.numberMax': 'Number must be less than or equal to {maximum}',
+  'validation.stringMin': 'String must contain at least {minimum} character(s)',
+  'validation.arrayMin': 'Array must contain at least {minimum} element(s)',
+  'access.adminTool': 'Tool "{tool}" requires a client token or OAuth scope that grants it by name',
+  'access.toolDenied': 'Client token "{client}" is not allowed to call tool "{tool}"',
+  'access.eventDenied': 'Client token "{client}" is not allowed to access event "{eventId}"',
+  'access.eventIdRequired': 'Client token "{client}" must pass an eventId to {tool}',
+  'access.dataDenied': 'Client token "{client}" is not allowed to read {target}, which exposes the data of tool "{tool}"',
+  'aiEvaluation.applicationNotFound': 'Application not found in event: {applicationId}',
+  'aiEvaluation.alreadyComplete': 'Evaluation {evaluationId} by {reviewerId} is already complete and cannot be overwritten',
+  'aiEvaluation.unknownCriterion': 'scores[{index}]: unknown criterion {criteriaId}',
+  'aiEvaluation.inactiveCriterion': 'scores[{index}]: criterion {criterion} ({criteriaId}) is not active',
+  'aiEvaluation.duplicateScore': 'scores[{index}]: criterion {criterion} ({criteriaId}) is scored more than once',
+  'aiEvaluation.scoreOutOfRange': 'scores[{index}]: score {score} for {criterion} is outside the range {min}-{max}',
+  'aiEvaluation.reasoningRequired': 'scores[{index}]: reasoning is required for {criterion}',
+  'aiEvaluation.missingScore': 'Missing score for active criterion {criterion} ({criteriaId})',
+  'aiEvaluation.invalidRecommendation': 'recommendation must be one of {recommendations}',
+  'aiEvaluation.invalidConfidence': 'confidence must be between 1 and 5'
+};
+
+const messages: Record<Locale, Partial<Record<MessageKey, string>>> = {
+  en,
+  es: {
+    'tools.test_connection.description': 'Prueba la conexión con la API de la plataforma FTC y verifica que el servidor MCP funciona correctamente',
+    'tools.get_event_applications.description': 'Obtiene las solicitudes de un evento con todos los datos para el análisis y la clasificación con IA. Devuelve la información del solicitante, las respuestas a todas las preguntas y metadatos para la evaluación. Admite filtros, proyección de campos y paginación por cursor (envía `nextCursor` como `cursor` para obtener la página siguiente). Con `locale`, los textos de las preguntas se devuelven en ese idioma y se marcan las respuestas escritas en otro idioma.',
+    'tools.get_event_evaluations.description': 'Obtiene las evaluaciones completadas de las solicitudes de un evento. Incluye las puntuaciones, comentarios, recomendaciones y estadísticas de los revisores para que la IA analice los patrones de evaluación humana.',
+    'tools.get_evaluation_criteria.description': 'Obtiene los criterios de evaluación organizados por categoría para la IA. Proporciona las rúbricas de puntuación, los pesos y las pautas que usan los revisores humanos, para puntuar las solicitudes de forma coherente.',
+    'tools.get_application_questions.description': 'Obtiene la estructura y los metadatos de las preguntas de la solicitud. Proporciona el conjunto completo de preguntas, sus tipos y requisitos para entender el formato y contenido de las solicitudes. Con `locale`, cada pregunta se devuelve solo en ese idioma.',
+    'tools.get_reviewer_calibration.description': 'Analiza la calibración de los revisores de un evento a partir de las evaluaciones completadas de revisores humanos. Informa de la media y la desviación estándar de cada revisor, su sesgo y desviación z respecto al panel y con qué frecuencia su recomendación difiere de la mayoría; el acuerdo entre evaluadores (alfa de Krippendorff) por criterio; y las puntuaciones de cada solicitud corregidas por sesgo.',
+    'tools.rank_applications.description': 'Clasifica las solicitudes de un evento con una puntuación ponderada coherente calculada a partir de todas las evaluaciones completadas de revisores humanos, usando el peso de cada criterio y los pesos por categoría del evento. Devuelve la clasificación con el desglose por categoría y el número de evaluaciones detrás de cada puntuación.',
+    'tools.find_contested_applications.description': 'Encuentra solicitudes en las que los revisores discrepan mucho y que conviene revisar de nuevo: gran dispersión de puntuaciones en algún criterio, recomendaciones mixtas (p. ej. ACCEPT frente a REJECT) o baja confianza de los revisores, entre las evaluaciones completadas de revisores humanos. Ordenadas por grado de desacuerdo, con las puntuaciones, el razonamiento y los comentarios no privados de los revisores.',
+    'tools.export_event_report.description': 'Exporta un informe del evento con las solicitudes, las respuestas a las preguntas elegidas, las puntuaciones por criterio y la clasificación ponderada en CSV, XLSX o un resumen en Markdown. El archivo se devuelve como recurso incrustado (XLSX codificado en base64).',
+    'tools.search_applications.description': 'Búsqueda de texto completo (BM25) en las respuestas de las solicitudes de un evento, en inglés y español. Devuelve los IDs de las solicitudes coincidentes ordenados por relevancia, con fragmentos resaltados. Usa questionKeys para limitar las preguntas en las que se busca.',
+    'tools.detect_duplicate_responses.description': 'Detecta respuestas casi idénticas o copiadas entre las solicitudes de un evento mediante similitud shingling/MinHash por pregunta, además de patrones coincidentes en el correo y el nombre del solicitante. Devuelve grupos de solicitudes sospechosamente similares con una puntuación de similitud por pregunta.',
+    'tools.audit_applications.description': 'Audita las solicitudes de un evento frente a su conjunto actual de preguntas, sin depender del completionPercentage de la plataforma. Informa de respuestas obligatorias vacías, respuestas de opción múltiple fuera de las opciones permitidas o por encima de maxOptions, campos de contacto vacíos y respuestas a preguntas que ya no se hacen, agrupadas por tipo de problema. Las respuestas de contacto se comprueban pero nunca se devuelven.',
+    'tools.plan_review_assignments.description': 'Informa de la cobertura de evaluaciones por solicitud y de la carga por revisor de un evento, y sugiere asignaciones para que cada solicitud alcance un número objetivo de evaluaciones. Las sugerencias atienden primero a las solicitudes menos cubiertas y a los revisores con menos carga, nunca repiten un revisor en una solicitud y respetan los conflictos de interés indicados. No se asigna nada en la plataforma.',
+    'tools.submit_ai_evaluation.description': 'Envía un borrador de evaluación de IA para una solicitud. Las puntuaciones se comprueban frente a los criterios activos del evento y sus rangos antes de enviarse como evaluación DRAFT con la identidad del revisor de IA. No sobrescribe una evaluación completada. Usa dryRun para obtener el contenido exacto sin enviarlo.',
+    'tools.invalidate_cache.description': 'Herramienta de administración: borra las respuestas de la API de la plataforma FTC en caché para un evento (o para todos si se omite eventId), de modo que la siguiente llamada obtenga datos actualizados. Solo disponible para tokens de cliente o scopes OAuth que la concedan por nombre.',
+    'args.locale.description': 'Idioma de los textos de las preguntas y de los mensajes: en (inglés) o es (español)',
+    'errors.unsupportedLocale': 'Idioma no admitido: {locale} (se esperaba uno de {locales})',
+    'errors.unknownTool': 'Herramienta desconocida: {tool}',
+    'errors.toolFailed': 'No se pudo ejecutar la herramienta MCP: {tool}',
+    'errors.invalidArguments': 'Argumentos no válidos para la herramienta {tool}: {issues}',
+    'errors.eventIdRequired': 'eventId es obligatorio',
+    'errors.invalidCursor': 'Cursor no válido: {cursor}',
+    'errors.invalidDate': 'Fecha no válida: {date}',
+    'errors.upstreamStatus': 'La solicitud a la API falló: {status} {statusText}\nRespuesta: {body}',
+    'errors.upstreamError': 'La API devolvió un error: {error}\nDetalles: {details}',
+    'errors.upstreamNoData': 'La API respondió correctamente pero sin datos',
+    'errors.upstreamTimeout': 'La solicitud a la API superó el tiempo de espera de {timeoutMs} ms: {url}',
+    'errors.upstreamPayload': 'Respuesta no válida de la plataforma en {endpoint}: {issues}',
+    'errors.circuitOpen': 'API de la plataforma no disponible: el circuit breaker está abierto tras {failures} fallos consecutivos (reintentar después de {retryAt})',
+    'errors.invalidAiEvaluation': 'Evaluación de IA no válida:\n- {errors}',
+    'validation.required': 'Obligatorio',
+    'validation.invalidType': 'Se esperaba {expected}, se recibió {received}',
+    'validation.unrecognizedKeys': 'Clave(s) no reconocida(s) en el objeto: {keys}',
+    'validation.invalidEnum': 'Valor no válido. Se esperaba {options}, se recibió \'{received}\'',
+    'validation.empty': 'no puede estar vacío',
+    'validation.isoDate': 'debe ser una fecha ISO 8601',
+    'validation.numberMin': 'El número debe ser mayor o igual que {minimum}',
+    'validation.numberMax': 'El número debe ser menor o igual que {maximum}',
+    'validation.stringMin': 'El texto debe tener al menos {minimum} carácter(es)',
+    'validation.arrayMin': 'La lista debe tener al menos {minimum} elemento(s)',
+    'access.adminTool': 'La herramienta "{tool}" requiere un token de cliente o scope OAuth que la conceda por nombre',
+    'access.toolDenied': 'El token de cliente "{client}" no puede llamar a la herramienta "{tool}"',
+    'access.eventDenied': 'El token de cliente "{client}" no puede acceder al evento "{eventId}"',
+    'access.eventIdRequired': 'El token de cliente "{client}" debe indicar un eventId para {tool}',
+    'access.dataDenied': 'El token de cliente "{client}" no puede leer {target}, que expone los datos de la herramienta "{tool}"',
+    'aiEvaluation.applicationNotFound': 'Solicitud no encontrada en el evento: {applicationId}',
+    'aiEvaluation.alreadyComplete': 'La evaluación {evaluationId} de {reviewerId} ya está completada y no se puede sobrescribir',
+    'aiEvaluation.unknownCriterion': 'scores[{index}]: criterio desconocido {criteriaId}',
+    'aiEvaluation.inactiveCriterion': 'scores[{index}]: el criterio {criterion} ({criteriaId}) no está activo',
+    'aiEvaluation.duplicateScore': 'scores[{index}]: el criterio {criterion} ({criteriaId}) se puntúa más de una vez',
+    'aiEvaluation.scoreOutOfRange': 'scores[{index}]: la puntuación {score} de {criterion} está fuera del rango {min}-{max}',
+    'aiEvaluation.reasoningRequired': 'scores[{index}]: el razonamiento es obligatorio para {criterion}',
+    'aiEvaluation.missingScore': 'Falta la puntuación del criterio activo {criterion} ({criteriaId})',
+    'aiEvaluation.invalidRecommendation': 'recommendation debe ser uno de {recommendations}',
+    'aiEvaluation.invalidConfidence': 'confidence debe estar entre 1 y 5'
+  }
+};
+
+/**
+ * Look up a message in the given locale, falling back to English, and fill
+ * in `{name}` placeholders from params.
+ */
+export function translate(locale: Locale, key: MessageKey, params: Record<string, string> = {}): string {
+  const template = messages[locale][key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => params[name] ?? placeholder);
+}
+
+/**
+ * Error with a catalog message, so callers can show it in their own locale.
+ * `message` is the English text, for logs and callers without a locale.
+ */
+export class LocalizedError extends Error {
+  constructor(readonly key: MessageKey, readonly params: Record<string, string> = {}) {
+    super(translate('en', key, params));
+    this.name = 'LocalizedError';
+  }
+
+  localize(locale: Locale): string {
+    return translate(locale, this.key, this.params);
+  }
+}
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as string[]).includes(value);
+}
+
+/**
+ * Server-wide locale used for tool descriptions and for messages when a
+ * call does not pass its own `locale`
+ */
+export function getDefaultLocale(): Locale {
+  const locale = process.env.MCP_LOCALE ?? 'en';
+  return isLocale(locale) ? locale : 'en';
+}
+
+export function parseLocale(value: unknown, fallback: Locale = getDefaultLocale()): Locale {
+  if (value === undefined || value === null || value === '') {
+    return fallback;
+  }
+  if (!isLocale(value)) {
+    throw new Error(translate(fallback, 'errors.unsupportedLocale', { locale: String(value), locales: LOCALES.join(', ') }));
+  }
+  return value;
+}
@@ -0,0 +1,104 @@
+import type {
+  Application,
+  ApplicationQuestionsData,
+  ApplicationResponse,
+  EventApplicationsData,
+  Question
+} from '../types/index.js';
+import { isLocale, type Locale } from './i18n.js';
+
+const LANGUAGE_MARKERS: Record<Locale, Set<string>> = {
+  en: new Set(['the', 'and', 'is', 'are', 'i', 'my', 'we', 'with', 'to', 'of', 'in', 'for', 'that', 'this', 'have', 'was', 'it', 'on', 'be', 'our']),
+  es: new Set(['el', 'la', 'los', 'las', 'y', 'es', 'son', 'yo', 'mi', 'con', 'de', 'en', 'para', 'que', 'por', 'una', 'un', 'del', 'se', 'nuestro'])
+};
+
+const MIN_MARKERS = 2;
+
+export type LocalizedQuestion = Omit<Question, 'questionText'> & {
+  questionText: string;
+};
+
+export interface LocalizedApplicationQuestionsData extends Omit<ApplicationQuestionsData, 'questions'> {
+  locale: Locale;
+  questions: LocalizedQuestion[];
+}
+
+export interface LocalizedResponse extends ApplicationResponse {
+  answerLanguage: Locale | 'unknown';
+  isDifferentLanguage: boolean;
+}
+
+export type LocalizedApplication = Omit<Application, 'responses'> & {
+  responses: LocalizedResponse[];
+};
+
+export interface LocalizedApplicationsData extends Omit<EventApplicationsData, 'applications'> {
+  locale: Locale;
+  differentLanguageResponseCount: number;
+  applications: LocalizedApplication[];
+}
+
+/**
+ * Guess whether a free-text answer is English or Spanish by counting common
+ * function words. Returns null for short or ambiguous text (names, URLs, options).
+ */
+export function detectAnswerLanguage(text: string): Locale | null {
+  const words = (text.toLowerCase().match(/\p{L}+/gu) ?? []);
+  const counts = { en: 0, es: 0 };
+  for (const word of words) {
+    if (LANGUAGE_MARKERS.en.has(word)) counts.en++;
+    if (LANGUAGE_MARKERS.es.has(word)) counts.es++;
+  }
+  if (Math.max(counts.en, counts.es) < MIN_MARKERS || counts.en === counts.es) {
+    return null;
+  }
+  return counts.en > counts.es ? 'en' : 'es';
+}
+
+export function localizeQuestions(data: ApplicationQuestionsData, locale: Locale): LocalizedApplicationQuestionsData {
+  return {
+    ...data,
+    locale,
+    questions: data.questions.map(question => ({
+      ...question,
+      questionText: question.questionText[locale] || question.questionText.en
+    }))
+  };
+}
+
+/**
+ * Replace each response's question text with the requested locale and mark
+ * answers written in another language. Answers whose language cannot be
+ * detected fall back to the application's declared language.
+ */
+export function localizeApplications(
+  data: EventApplicationsData,
+  questions: ApplicationQuestionsData,
+  locale: Locale
+): LocalizedApplicationsData {
+  const questionsByKey = new Map(questions.questions.map(question => [question.questionKey, question]));
+  let differentLanguageResponseCount = 0;
+
+  const applications = data.applications.map(application => ({
+    ...application,
+    responses: application.responses.map((response): LocalizedResponse => {
+      const question = questionsByKey.get(response.questionKey);
+      const detected = detectAnswerLanguage(response.answer ?? '');
+      const declared = isLocale(application.language) ? application.language : null;
+      const answerLanguage = detected ?? declared ?? 'unknown';
+      const isDifferentLanguage = answerLanguage !== 'unknown' && answerLanguage !== locale;
+      if (isDifferentLanguage) {
+        differentLanguageResponseCount++;
+      }
+
+      return {
+        ...response,
+        questionText: question ? question.questionText[locale] || question.questionText.en : response.questionText,
+        answerLanguage,
+        isDifferentLanguage
+      };
+    })
+  }));
+
+  return { ...data, locale, differentLanguageResponseCount, applications };
+}
@@ -0,0 +1,114 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import type { UpstreamCall } from './audit-log.js';
+
+const PREFIX = 'ftc_mcp_';
+
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry, prefix: PREFIX });
+
+const toolCalls = new Counter({
+  name: `${PREFIX}tool_calls_total`,
+  help: 'Tool calls by tool name',
+  labelNames: ['tool'] as const,
+  registers: [metricsRegistry]
+});
+
+const toolErrors = new Counter({
+  name: `${PREFIX}tool_errors_total`,
+  help: 'Tool calls that failed or were rejected, by tool name',
+  labelNames: ['tool'] as const,
+  registers: [metricsRegistry]
+});
+
+const toolDuration = new Histogram({
+  name: `${PREFIX}tool_duration_seconds`,
+  help: 'Tool call latency',
+  labelNames: ['tool'] as const,
+  buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry]
+});
+
+const toolResultBytes = new Histogram({
+  name: `${PREFIX}tool_result_bytes`,
+  help: 'Size of tool call results sent to clients',
+  labelNames: ['tool'] as const,
+  buckets: [1_000, 10_000, 100_000, 500_000, 1_000_000, 5_000_000, 20_000_000],
+  registers: [metricsRegistry]
+});
+
+const upstreamRequests = new Counter({
+  name: `${PREFIX}upstream_requests_total`,
+  help: 'Requests to the platform API by endpoint and status code ("error" when no response was received)',
+  labelNames: ['method', 'endpoint', 'status'] as const,
+  registers: [metricsRegistry]
+});
+
+const upstreamDuration = new Histogram({
+  name: `${PREFIX}upstream_request_duration_seconds`,
+  help: 'Platform API request latency, including retries',
+  labelNames: ['method', 'endpoint'] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry]
+});
+
+const upstreamCacheHits = new Counter({
+  name: `${PREFIX}upstream_cache_hits_total`,
+  help: 'Platform API reads served from the response cache',
+  labelNames: ['endpoint'] as const,
+  registers: [metricsRegistry]
+});
+
+const rateLimitRejections = new Counter({
+  name: `${PREFIX}rate_limit_rejections_total`,
+  help: 'HTTP requests rejected by the rate limiter',
+  labelNames: ['route'] as const,
+  registers: [metricsRegistry]
+});
+
+/**
+ * Gauge of active MCP sessions, read from the session registry at scrape time
+ */
+export function registerActiveSessionsGauge(getActiveSessions: () => number): void {
+  new Gauge({
+    name: `${PREFIX}active_sessions`,
+    help: 'Active MCP sessions',
+    registers: [metricsRegistry],
+    collect() {
+      this.set(getActiveSessions());
+    }
+  });
+}
+
+/**
+ * Endpoint path with event and application IDs replaced, to keep label
+ * cardinality bounded, e.g. /events/:eventId/applications
+ */
+export function endpointTemplate(endpoint: string): string {
+  return endpoint
+    .split('?')[0]
+    .replace(/^\/events\/[^/]+/, '/events/:eventId')
+    .replace(/\/applications\/[^/]+/, '/applications/:applicationId');
+}
+
+export function observeToolCall(tool: string, durationMs: number, resultBytes: number, isError: boolean): void {
+  toolCalls.inc({ tool });
+  if (isError) {
+    toolErrors.inc({ tool });
+  }
+  toolDuration.observe({ tool }, durationMs / 1000);
+  toolResultBytes.observe({ tool }, resultBytes);
+}
+
+export function observeUpstreamCall(call: UpstreamCall): void {
+  const endpoint = endpointTemplate(call.endpoint);
+  if (call.cached) {
+    upstreamCacheHits.inc({ endpoint });
+    return;
+  }
+  upstreamRequests.inc({ method: call.method, endpoint, status: call.status === null ? 'error' : String(call.status) });
+  upstreamDuration.observe({ method: call.method, endpoint }, call.durationMs / 1000);
+}
+
+export function observeRateLimitRejection(route: string): void {
+  rateLimitRejections.inc({ route });
+}
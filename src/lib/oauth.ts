@@ -0,0 +1,150 @@
+import { readFileSync } from 'node:fs';
+import { createLocalJWKSet, createRemoteJWKSet, errors, jwtVerify, type JWTPayload, type JWTVerifyGetKey } from 'jose';
+import { getOAuthProtectedResourceMetadataUrl } from '@modelcontextprotocol/sdk/server/auth/router.js';
+import type { OAuthProtectedResourceMetadata } from '@modelcontextprotocol/sdk/shared/auth.js';
+import type { ClientIdentity } from './client-tokens.js';
+
+const TOOL_SCOPE_PREFIX = 'tools:';
+const EVENT_SCOPE_PREFIX = 'events:';
+const ANY = '*';
+
+export interface OAuthConfig {
+  issuer: string;
+  /** Canonical URL of this server's MCP endpoint, e.g. https://ftc-mcp.fly.dev/mcp */
+  resource: string;
+  /** Expected `aud` claim; defaults to the resource URL */
+  audience: string;
+  /** Path to a JWKS file or an https URL serving one */
+  jwks: string;
+}
+
+export type OAuthVerificationResult =
+  | { ok: true; client: ClientIdentity }
+  | { ok: false; description: string };
+
+/**
+ * OAuth settings from the environment, or null when OAuth is not enabled.
+ * MCP_OAUTH_ISSUER and MCP_OAUTH_RESOURCE are both required to enable it.
+ */
+export function getOAuthConfig(): OAuthConfig | null {
+  const issuer = process.env.MCP_OAUTH_ISSUER;
+  const resource = process.env.MCP_OAUTH_RESOURCE;
+  if (!issuer && !resource) {
+    return null;
+  }
+  if (!issuer || !resource) {
+    throw new Error('MCP_OAUTH_ISSUER and MCP_OAUTH_RESOURCE must be set together to enable OAuth');
+  }
+
+  return {
+    issuer,
+    resource,
+    audience: process.env.MCP_OAUTH_AUDIENCE || resource,
+    jwks: process.env.MCP_OAUTH_JWKS || new URL('/.well-known/jwks.json', issuer).toString()
+  };
+}
+
+export function looksLikeJwt(token: string): boolean {
+  return token.split('.').length === 3;
+}
+
+function grantedScopes(payload: JWTPayload): string[] {
+  if (typeof payload.scope === 'string') {
+    return payload.scope.split(' ').filter(Boolean);
+  }
+  // Some authorization servers issue scopes as an array in `scp`
+  return Array.isArray(payload.scp) ? payload.scp.filter((scope): scope is string => typeof scope === 'string') : [];
+}
+
+function allowlistFromScopes(scopes: string[], prefix: string): Set<string> | null {
+  const values = scopes.filter(scope => scope.startsWith(prefix)).map(scope => scope.slice(prefix.length));
+  return values.includes(ANY) ? null : new Set(values);
+}
+
+/**
+ * Map access token claims to the same permissions a scoped client token has.
+ * `tools:<name>` and `events:<id>` scopes grant a tool or an event, and
+ * `tools:*` / `events:*` grant all of them. Tokens without any `tools:`
+ * scope can call nothing.
+ */
+export function clientFromClaims(payload: JWTPayload): ClientIdentity {
+  const scopes = grantedScopes(payload);
+  const name = [payload.client_id, payload.azp, payload.sub].find((value): value is string => typeof value === 'string') ?? 'oauth-client';
+
+  return {
+    name,
+    tools: allowlistFromScopes(scopes, TOOL_SCOPE_PREFIX),
+    eventIds: allowlistFromScopes(scopes, EVENT_SCOPE_PREFIX),
+    expiresAt: payload.exp ? new Date(payload.exp * 1000) : undefined
+  };
+}
+
+/**
+ * Validates JWT access tokens issued for this server by the configured
+ * authorization server.
+ */
+export class OAuthTokenVerifier {
+  private keys: JWTVerifyGetKey;
+
+  constructor(readonly config: OAuthConfig) {
+    this.keys = /^https?:\/\//.test(config.jwks)
+      ? createRemoteJWKSet(new URL(config.jwks))
+      : createLocalJWKSet(JSON.parse(readFileSync(config.jwks, 'utf8')));
+  }
+
+  async verify(token: string): Promise<OAuthVerificationResult> {
+    try {
+      const { payload } = await jwtVerify(token, this.keys, {
+        issuer: this.config.issuer,
+        audience: this.config.audience
+      });
+      return { ok: true, client: clientFromClaims(payload) };
+    } catch (error) {
+      if (error instanceof errors.JWTExpired) {
+        return { ok: false, description: 'The access token expired' };
+      }
+      if (error instanceof errors.JOSEError) {
+        return { ok: false, description: `The access token is invalid: ${error.message}` };
+      }
+      throw error;
+    }
+  }
+
+  get metadataUrl(): string {
+    return getOAuthProtectedResourceMetadataUrl(new URL(this.config.resource));
+  }
+
+  /**
+   * Paths the metadata is served from: the root location and the RFC 9728
+   * location with the resource path appended, which some clients probe first
+   */
+  get metadataPaths(): string[] {
+    const root = new URL(this.metadataUrl).pathname;
+    const resourcePath = new URL(this.config.resource).pathname.replace(/\/$/, '');
+    return resourcePath ? [root, `${root}${resourcePath}`] : [root];
+  }
+
+  /**
+   * RFC 9728 protected resource metadata advertised to MCP clients
+   */
+  getProtectedResourceMetadata(): OAuthProtectedResourceMetadata {
+    return {
+      resource: this.config.resource,
+      authorization_servers: [this.config.issuer],
+      bearer_methods_supported: ['header'],
+      scopes_supported: [`${TOOL_SCOPE_PREFIX}${ANY}`, `${EVENT_SCOPE_PREFIX}${ANY}`],
+      resource_name: 'FTC Platform MCP Server'
+    };
+  }
+
+  /**
+   * `WWW-Authenticate` challenge pointing clients at the resource metadata
+   */
+  challenge(description?: string): string {
+    const params = [`resource_metadata="${this.metadataUrl}"`];
+    if (description) {
+      params.unshift('error="invalid_token"', `error_description="${description.replace(/["\\]/g, '')}"`);
+    }
+    return `Bearer ${params.join(', ')}`;
+  }
+}
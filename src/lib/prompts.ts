@@ -0,0 +1,195 @@
+import { ErrorCode, McpError, type GetPromptResult, type Prompt } from '@modelcontextprotocol/sdk/types.js';
+import type { PlatformReader } from './api-client.js';
+import type { Application, Criterion, Evaluation } from '../types/index.js';
+
+interface PromptDefinition {
+  prompt: Prompt;
+  /** Tools exposing the data the prompt embeds; a client must be allowed all of them */
+  tools: string[];
+  build(apiClient: PlatformReader, args: Record<string, string>): Promise<GetPromptResult>;
+}
+
+function formatRubric(criteria: Criterion[]): string {
+  return criteria
+    .filter(criterion => criterion.isActive)
+    .sort((a, b) => a.order - b.order)
+    .map(criterion => [
+      `### ${criterion.name} (id: ${criterion.id})`,
+      `- Category: ${criterion.category} — ${criterion.categoryDescription}`,
+      `- Weight: ${criterion.weight}`,
+      `- Score range: ${criterion.scoreRange.min}–${criterion.scoreRange.max}`,
+      `- Description: ${criterion.description}`,
+      `- Scoring guidance: ${criterion.scoringGuidance}`,
+    ].join('\n'))
+    .join('\n\n');
+}
+
+function formatResponses(application: Application): string {
+  return [...application.responses]
+    .sort((a, b) => a.order - b.order)
+    .map(response => `**${response.questionText}** (${response.questionKey})\n${response.answer || '_No answer_'}`)
+    .join('\n\n');
+}
+
+function formatEvaluation(evaluation: Evaluation): string {
+  const lines = [
+    `### Reviewer ${evaluation.reviewer.name ?? evaluation.reviewerId}`,
+    `- Recommendation: ${evaluation.recommendation ?? 'none'}`,
+    `- Overall score: ${evaluation.overallScore ?? 'n/a'} (confidence: ${evaluation.confidence ?? 'n/a'})`,
+  ];
+  if (evaluation.overallComments) {
+    lines.push(`- Overall comments: ${evaluation.overallComments}`);
+  }
+  for (const score of evaluation.scores) {
+    lines.push(`- ${score.criteriaName}: ${score.score}/${score.scoreRange.max}${score.reasoning ? ` — ${score.reasoning}` : ''}`);
+  }
+  for (const comment of evaluation.comments.filter(candidate => !candidate.isPrivate)) {
+    lines.push(`- Comment${comment.questionKey ? ` on ${comment.questionKey}` : ''}: ${comment.comment}`);
+  }
+  return lines.join('\n');
+}
+
+async function findApplication(apiClient: PlatformReader, eventId: string, applicationId: string): Promise<Application> {
+  const { applications } = await apiClient.getEventApplications(eventId);
+  const application = applications.find(candidate => candidate.id === applicationId);
+  if (!application) {
+    throw new Error(`Application not found: ${applicationId}`);
+  }
+  return application;
+}
+
+function userMessage(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
+
+const promptDefinitions: PromptDefinition[] = [
+  {
+    prompt: {
+      name: 'score_application',
+      description: 'Score a single application against the event rubric used by human reviewers',
+      arguments: [
+        { name: 'eventId', description: 'The unique ID of the event', required: true },
+        { name: 'applicationId', description: 'The unique ID of the application to score', required: true },
+      ],
+    },
+    tools: ['get_evaluation_criteria', 'get_event_applications'],
+    build: async (apiClient, { eventId, applicationId }) => {
+      const [{ criteria, event }, application] = await Promise.all([
+        apiClient.getEvaluationCriteria(eventId),
+        findApplication(apiClient, eventId, applicationId),
+      ]);
+
+      return userMessage(`Score application ${applicationId} for ${event.name}`, [
+        `You are reviewing an application for "${event.name}". Score it using exactly the rubric below, which is the same rubric human reviewers use.`,
+        'For every criterion give an integer score within its score range and a short reasoning that cites the applicant\'s answers. Then give an overall recommendation (ACCEPT, REJECT, WAITLIST or NEEDS_MORE_INFO) and your confidence from 1 to 5.',
+        '## Rubric',
+        formatRubric(criteria),
+        `## Application ${application.id}`,
+        formatResponses(application),
+      ].join('\n\n'));
+    },
+  },
+  {
+    prompt: {
+      name: 'summarize_reviewer_feedback',
+      description: 'Summarize what human reviewers said about an application, criterion by criterion',
+      arguments: [
+        { name: 'eventId', description: 'The unique ID of the event', required: true },
+        { name: 'applicationId', description: 'The unique ID of the application to summarize feedback for', required: true },
+      ],
+    },
+    tools: ['get_evaluation_criteria', 'get_event_evaluations'],
+    build: async (apiClient, { eventId, applicationId }) => {
+      const [{ criteria, event }, { evaluations }] = await Promise.all([
+        apiClient.getEvaluationCriteria(eventId),
+        apiClient.getEventEvaluations(eventId),
+      ]);
+      const applicationEvaluations = evaluations.filter(evaluation => evaluation.applicationId === applicationId);
+      if (applicationEvaluations.length === 0) {
+        throw new Error(`No evaluations found for application: ${applicationId}`);
+      }
+
+      return userMessage(`Summarize reviewer feedback for application ${applicationId}`, [
+        `Summarize the reviewer feedback below for an application to "${event.name}".`,
+        'For each rubric criterion, describe where reviewers agree and disagree and why. Finish with the overall consensus, any strongly dissenting reviewer, and open questions the committee should resolve.',
+        '## Rubric',
+        formatRubric(criteria),
+        `## Evaluations (${applicationEvaluations.length})`,
+        applicationEvaluations.map(formatEvaluation).join('\n\n'),
+      ].join('\n\n'));
+    },
+  },
+  {
+    prompt: {
+      name: 'compare_applicants',
+      description: 'Compare several applications side by side against the event rubric',
+      arguments: [
+        { name: 'eventId', description: 'The unique ID of the event', required: true },
+        { name: 'applicationIds', description: 'Comma-separated IDs of the applications to compare', required: true },
+      ],
+    },
+    tools: ['get_evaluation_criteria', 'get_event_applications'],
+    build: async (apiClient, { eventId, applicationIds }) => {
+      const ids = (applicationIds ?? '').split(',').map(id => id.trim()).filter(Boolean);
+      if (ids.length < 2) {
+        throw new Error('applicationIds must contain at least two application IDs');
+      }
+
+      const [{ criteria, event }, { applications }] = await Promise.all([
+        apiClient.getEvaluationCriteria(eventId),
+        apiClient.getEventApplications(eventId),
+      ]);
+      const selected = ids.map(id => {
+        const application = applications.find(candidate => candidate.id === id);
+        if (!application) {
+          throw new Error(`Application not found: ${id}`);
+        }
+        return application;
+      });
+
+      return userMessage(`Compare ${selected.length} applications for ${event.name}`, [
+        `Compare the following applications to "${event.name}" using exactly the rubric below.`,
+        'Score each application on every criterion within its score range, then rank them by weighted score and explain the deciding differences between adjacent applicants.',
+        '## Rubric',
+        formatRubric(criteria),
+        ...selected.map(application => `## Application ${application.id}\n\n${formatResponses(application)}`),
+      ].join('\n\n'));
+    },
+  },
+];
+
+export function listPrompts(canRead: (tools: string[]) => boolean = () => true): Prompt[] {
+  return promptDefinitions.filter(definition => canRead(definition.tools)).map(definition => definition.prompt);
+}
+
+/**
+ * Tools whose data a prompt embeds, or null for unknown prompt names
+ */
+export function getPromptTools(name: string): string[] | null {
+  return promptDefinitions.find(candidate => candidate.prompt.name === name)?.tools ?? null;
+}
+
+/**
+ * Build a prompt from live event data. Returns null for unknown prompt names.
+ */
+export async function getPrompt(
+  apiClient: PlatformReader,
+  name: string,
+  args: Record<string, string> = {}
+): Promise<GetPromptResult | null> {
+  const definition = promptDefinitions.find(candidate => candidate.prompt.name === name);
+  if (!definition) {
+    return null;
+  }
+
+  for (const argument of definition.prompt.arguments ?? []) {
+    if (argument.required && !args[argument.name]) {
+      throw new McpError(ErrorCode.InvalidParams, `${argument.name} is required`);
+    }
+  }
+
+  return definition.build(apiClient, args);
+}
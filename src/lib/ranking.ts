@@ -0,0 +1,152 @@
+import type { EvaluationCriteriaData, Evaluation, EventEvaluationsData } from '../types/index.js';
+import { describeSelection, selectEvaluations, type EvaluationSelection } from './evaluation-selection.js';
+import { groupBy, mean, round, sum } from './statistics.js';
+
+export interface RankingOptions extends EvaluationSelection {
+  confidenceWeighted?: boolean;
+  minEvaluations?: number;
+  limit?: number;
+}
+
+export interface RankedApplication {
+  rank: number;
+  applicationId: string;
+  weightedScore: number;
+  categoryBreakdown: Record<string, number>;
+  evaluationCount: number;
+  meanConfidence: number | null;
+}
+
+export interface ApplicationRanking {
+  eventId: string;
+  ranking: RankedApplication[];
+  belowThreshold: Array<{ applicationId: string; evaluationCount: number }>;
+  totalApplications: number;
+  options: Required<Omit<RankingOptions, 'limit' | 'excludeReviewerIds'>> & { limit: number | null };
+  metadata: {
+    generatedAt: string;
+    method: string;
+  };
+}
+
+interface EvaluationScoreSummary {
+  weightedScore: number;
+  categoryScores: Record<string, number>;
+}
+
+/**
+ * Weighted score for one evaluation: normalized criterion scores weighted by
+ * `criteriaWeight` and the event's category weight, plus per-category means
+ * weighted by `criteriaWeight` alone. Returns null when nothing was scored.
+ */
+export function scoreEvaluation(
+  evaluation: Evaluation,
+  categoryWeights: Record<string, number>
+): EvaluationScoreSummary | null {
+  const weighted = evaluation.scores.map(score => ({
+    category: score.criteriaCategory,
+    normalizedScore: score.normalizedScore,
+    criteriaWeight: score.criteriaWeight,
+    weight: score.criteriaWeight * (categoryWeights[score.criteriaCategory] ?? 1)
+  }));
+
+  const totalWeight = sum(weighted.map(entry => entry.weight));
+  if (totalWeight <= 0) {
+    return null;
+  }
+
+  const categoryScores: Record<string, number> = {};
+  for (const [category, entries] of groupBy(weighted, entry => entry.category)) {
+    const categoryWeight = sum(entries.map(entry => entry.criteriaWeight));
+    if (categoryWeight > 0) {
+      categoryScores[category] = sum(entries.map(entry => entry.normalizedScore * entry.criteriaWeight)) / categoryWeight;
+    }
+  }
+
+  return {
+    weightedScore: sum(weighted.map(entry => entry.normalizedScore * entry.weight)) / totalWeight,
+    categoryScores
+  };
+}
+
+function weightedMean(entries: Array<{ value: number; weight: number }>): number {
+  const totalWeight = sum(entries.map(entry => entry.weight));
+  return totalWeight > 0
+    ? sum(entries.map(entry => entry.value * entry.weight)) / totalWeight
+    : sum(entries.map(entry => entry.value)) / entries.length;
+}
+
+/**
+ * Rank applications by their weighted score averaged across evaluations.
+ * Only completed evaluations count unless `includeDrafts` is set.
+ *
+ * Ties are broken by evaluation count, then mean confidence (both descending),
+ * then application ID, so the same input always yields the same order.
+ */
+export function rankApplications(
+  evaluationsData: EventEvaluationsData,
+  criteriaData: EvaluationCriteriaData,
+  options: RankingOptions = {}
+): ApplicationRanking {
+  const confidenceWeighted = options.confidenceWeighted ?? false;
+  const minEvaluations = Math.max(options.minEvaluations ?? 1, 1);
+  const includeDrafts = options.includeDrafts ?? false;
+  const categoryWeights: Record<string, number> = { ...criteriaData.scoring.categoryWeights };
+
+  const candidates: Omit<RankedApplication, 'rank'>[] = [];
+  const belowThreshold: ApplicationRanking['belowThreshold'] = [];
+
+  const { evaluations: selected } = selectEvaluations(evaluationsData, options);
+  for (const [applicationId, evaluations] of groupBy(selected, evaluation => evaluation.applicationId)) {
+    const scored = evaluations
+      .map(evaluation => ({ evaluation, summary: scoreEvaluation(evaluation, categoryWeights) }))
+      .filter((entry): entry is { evaluation: Evaluation; summary: EvaluationScoreSummary } => entry.summary !== null);
+
+    if (scored.length < minEvaluations) {
+      belowThreshold.push({ applicationId, evaluationCount: scored.length });
+      continue;
+    }
+
+    // Evaluations without a confidence count as weight 1 when confidence-weighting
+    const weightOf = (evaluation: Evaluation) => confidenceWeighted ? evaluation.confidence ?? 1 : 1;
+
+    const categories = new Set(scored.flatMap(entry => Object.keys(entry.summary.categoryScores)));
+    const categoryBreakdown: Record<string, number> = {};
+    for (const category of categories) {
+      const entries = scored
+        .filter(entry => category in entry.summary.categoryScores)
+        .map(entry => ({ value: entry.summary.categoryScores[category], weight: weightOf(entry.evaluation) }));
+      categoryBreakdown[category] = round(weightedMean(entries))!;
+    }
+
+    candidates.push({
+      applicationId,
+      // Rounded before sorting so floating-point noise does not decide ties
+      weightedScore: round(weightedMean(scored.map(entry => ({ value: entry.summary.weightedScore, weight: weightOf(entry.evaluation) }))))!,
+      categoryBreakdown,
+      evaluationCount: scored.length,
+      meanConfidence: round(mean(scored.flatMap(entry => entry.evaluation.confidence ?? [])))
+    });
+  }
+
+  candidates.sort((a, b) =>
+    b.weightedScore - a.weightedScore ||
+    b.evaluationCount - a.evaluationCount ||
+    (b.meanConfidence ?? 0) - (a.meanConfidence ?? 0) ||
+    a.applicationId.localeCompare(b.applicationId)
+  );
+
+  const limited = options.limit !== undefined ? candidates.slice(0, Math.max(options.limit, 0)) : candidates;
+
+  return {
+    eventId: evaluationsData.eventId,
+    ranking: limited.map((candidate, index) => ({ rank: index + 1, ...candidate })),
+    belowThreshold: belowThreshold.sort((a, b) => a.applicationId.localeCompare(b.applicationId)),
+    totalApplications: candidates.length + belowThreshold.length,
+    options: { confidenceWeighted, minEvaluations, includeDrafts, limit: options.limit ?? null },
+    metadata: {
+      generatedAt: new Date().toISOString(),
+      method: `${describeSelection(options)} Each evaluation is scored as the mean of normalizedScore weighted by criteriaWeight × category weight; applications average their evaluations (optionally weighted by reviewer confidence). Category breakdowns weight by criteriaWeight only. Ties break on evaluation count, mean confidence, then application ID.`
+    }
+  };
+}
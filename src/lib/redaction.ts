@@ -0,0 +1,221 @@
+import { createHmac, randomBytes } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import type {
+  Application,
+  ApplicationsQuery,
+  Evaluation,
+  EventApplicationsData,
+  EventEvaluationsData
+} from '../types/index.js';
+import type { PlatformReader } from './api-client.js';
+
+export interface RedactionPolicy {
+  /** show: unchanged; mask: partially hide name and email; pseudonymize: replace with stable per-event IDs */
+  applicants: 'show' | 'mask' | 'pseudonymize';
+  /** show: unchanged; hide: replace reviewer IDs with stable per-event pseudonyms and drop names */
+  reviewers: 'show' | 'hide';
+  /** include: unchanged; drop: remove reviewer comments marked isPrivate */
+  privateComments: 'include' | 'drop';
+}
+
+export interface RedactionConfig {
+  default: RedactionPolicy;
+  clients: Record<string, Partial<RedactionPolicy>>;
+}
+
+const OPEN_POLICY: RedactionPolicy = {
+  applicants: 'show',
+  reviewers: 'show',
+  privateComments: 'include'
+};
+
+const POLICY_VALUES: { [K in keyof RedactionPolicy]: RedactionPolicy[K][] } = {
+  applicants: ['show', 'mask', 'pseudonymize'],
+  reviewers: ['show', 'hide'],
+  privateComments: ['include', 'drop']
+};
+
+function validatePolicy(policy: Partial<RedactionPolicy>, source: string): Partial<RedactionPolicy> {
+  for (const [key, value] of Object.entries(policy)) {
+    const allowed = POLICY_VALUES[key as keyof RedactionPolicy] as string[] | undefined;
+    if (!allowed) {
+      throw new Error(`Unknown redaction policy field "${key}" in ${source}`);
+    }
+    if (!allowed.includes(value as string)) {
+      throw new Error(`Invalid redaction policy ${key}="${value}" in ${source} (expected ${allowed.join(', ')})`);
+    }
+  }
+  return policy;
+}
+
+/**
+ * Load per-client redaction policies from the JSON file named by
+ * MCP_REDACTION_POLICIES_FILE:
+ *
+ *   { "default": { "applicants": "mask" }, "clients": { "blind-scorer": { "applicants": "pseudonymize", ... } } }
+ *
+ * Without a file every client sees unredacted data.
+ */
+export function loadRedactionConfig(): RedactionConfig {
+  const file = process.env.MCP_REDACTION_POLICIES_FILE;
+  if (!file) {
+    return { default: OPEN_POLICY, clients: {} };
+  }
+
+  const raw = JSON.parse(readFileSync(file, 'utf8')) as { default?: Partial<RedactionPolicy>; clients?: Record<string, Partial<RedactionPolicy>> };
+  const clients: Record<string, Partial<RedactionPolicy>> = {};
+  for (const [client, policy] of Object.entries(raw.clients ?? {})) {
+    clients[client] = validatePolicy(policy, `${file} (client ${client})`);
+  }
+
+  return {
+    default: { ...OPEN_POLICY, ...validatePolicy(raw.default ?? {}, `${file} (default)`) },
+    clients
+  };
+}
+
+export function resolveRedactionPolicy(config: RedactionConfig, clientId?: string): RedactionPolicy {
+  const override = clientId ? config.clients[clientId] : undefined;
+  return { ...config.default, ...override };
+}
+
+export function isOpenPolicy(policy: RedactionPolicy): boolean {
+  return policy.applicants === 'show' && policy.reviewers === 'show' && policy.privateComments === 'include';
+}
+
+/**
+ * Stable pseudonyms: the same person always maps to the same ID within an
+ * event, but IDs cannot be correlated across events or reversed without the secret.
+ */
+export class Pseudonymizer {
+  private secret: string;
+
+  /** Without MCP_PSEUDONYM_SECRET a random secret is used and pseudonyms change on restart */
+  constructor(secret = process.env.MCP_PSEUDONYM_SECRET) {
+    this.secret = secret || randomBytes(32).toString('hex');
+  }
+
+  pseudonym(kind: 'applicant' | 'reviewer', eventId: string, id: string): string {
+    const digest = createHmac('sha256', this.secret).update(`${kind}:${eventId}:${id}`).digest('hex');
+    return `${kind}-${digest.slice(0, 12)}`;
+  }
+}
+
+function maskName(name: string): string {
+  return name.split(/\s+/).filter(Boolean).map(part => `${part[0]}***`).join(' ');
+}
+
+function maskEmail(email: string): string {
+  const [local, domain] = email.split('@');
+  return domain ? `${local[0] ?? ''}***@${domain}` : '***';
+}
+
+/**
+ * Applies a redaction policy to everything read from the platform API before
+ * it reaches a tool, resource or prompt.
+ */
+export class RedactingReader implements PlatformReader {
+  constructor(
+    private reader: PlatformReader,
+    private policy: RedactionPolicy,
+    private pseudonymizer: Pseudonymizer
+  ) {}
+
+  testConnection() {
+    return this.reader.testConnection();
+  }
+
+  getEvaluationCriteria(eventId: string) {
+    return this.reader.getEvaluationCriteria(eventId);
+  }
+
+  getApplicationQuestions(eventId: string) {
+    return this.reader.getApplicationQuestions(eventId);
+  }
+
+  async getEventApplications(eventId: string, query?: ApplicationsQuery): Promise<EventApplicationsData> {
+    const data = await this.reader.getEventApplications(eventId, query);
+    if (this.policy.applicants === 'show') {
+      return data;
+    }
+
+    // Contact-info answers identify applicants just as well as their profile
+    const { questions } = await this.reader.getApplicationQuestions(eventId);
+    const contactKeys = new Set(questions.filter(question => question.isContactInfo).map(question => question.questionKey));
+
+    return {
+      ...data,
+      applications: data.applications.map(application => ({
+        ...this.redactApplicant(eventId, application),
+        responses: application.responses.filter(response => !contactKeys.has(response.questionKey))
+      }))
+    };
+  }
+
+  async getEventEvaluations(eventId: string): Promise<EventEvaluationsData> {
+    const data = await this.reader.getEventEvaluations(eventId);
+    if (isOpenPolicy(this.policy)) {
+      return data;
+    }
+
+    return {
+      ...data,
+      evaluations: data.evaluations.map(evaluation => this.redactEvaluation(eventId, evaluation))
+    };
+  }
+
+  reviewerIdFor(eventId: string, reviewerId: string): string {
+    const id = this.reader.reviewerIdFor(eventId, reviewerId);
+    return this.policy.reviewers === 'hide' ? this.pseudonymizer.pseudonym('reviewer', eventId, id) : id;
+  }
+
+  private redactApplicant<T extends Pick<Application, 'userId' | 'applicant'>>(eventId: string, application: T): T {
+    const { applicant } = application;
+    if (this.policy.applicants === 'show') {
+      return application;
+    }
+
+    if (this.policy.applicants === 'mask') {
+      return {
+        ...application,
+        applicant: applicant && {
+          id: applicant.id,
+          name: applicant.name ? maskName(applicant.name) : applicant.name,
+          email: applicant.email ? maskEmail(applicant.email) : applicant.email
+        }
+      };
+    }
+
+    const pseudonym = (id: string) => this.pseudonymizer.pseudonym('applicant', eventId, id);
+    return {
+      ...application,
+      userId: application.userId ? pseudonym(application.userId) : application.userId,
+      applicant: applicant && { id: pseudonym(applicant.id), name: `Applicant ${pseudonym(applicant.id).slice(-6)}` }
+    };
+  }
+
+  private redactEvaluation(eventId: string, evaluation: Evaluation): Evaluation {
+    let redacted: Evaluation = {
+      ...evaluation,
+      application: this.redactApplicant(eventId, evaluation.application)
+    };
+
+    if (this.policy.reviewers === 'hide') {
+      const reviewerId = this.pseudonymizer.pseudonym('reviewer', eventId, evaluation.reviewerId);
+      redacted = {
+        ...redacted,
+        reviewerId,
+        reviewer: { id: reviewerId, role: evaluation.reviewer.role }
+      };
+    }
+
+    if (this.policy.privateComments === 'drop') {
+      redacted = {
+        ...redacted,
+        comments: evaluation.comments.filter(comment => !comment.isPrivate)
+      };
+    }
+
+    return redacted;
+  }
+}
@@ -0,0 +1,254 @@
+import ExcelJS from 'exceljs';
+import type {
+  EvaluationCriteriaData,
+  EventApplicationsData,
+  EventEvaluationsData
+} from '../types/index.js';
+import type { PlatformReader } from './api-client.js';
+import { getAiReviewer } from './ai-evaluation.js';
+import { selectEvaluations } from './evaluation-selection.js';
+import { rankApplications } from './ranking.js';
+import { groupBy, mean, round } from './statistics.js';
+
+export type ReportFormat = 'csv' | 'xlsx' | 'markdown';
+
+export const REPORT_FORMATS: ReportFormat[] = ['csv', 'xlsx', 'markdown'];
+
+export const REPORT_COLUMNS = [
+  'rank',
+  'applicationId',
+  'applicantName',
+  'applicantEmail',
+  'status',
+  'language',
+  'submittedAt',
+  'completionPercentage',
+  'evaluationCount',
+  'weightedScore',
+  'criteriaScores'
+] as const;
+
+export type ReportColumn = typeof REPORT_COLUMNS[number];
+
+export interface ReportOptions {
+  format: ReportFormat;
+  columns?: ReportColumn[];
+  questionKeys?: string[];
+}
+
+export interface RenderedReport {
+  filename: string;
+  mimeType: string;
+  body: Buffer;
+}
+
+type Cell = string | number | null;
+
+interface ReportTable {
+  title: string;
+  headers: string[];
+  rows: Cell[][];
+}
+
+const MIME_TYPES: Record<ReportFormat, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  markdown: 'text/markdown'
+};
+
+const EXTENSIONS: Record<ReportFormat, string> = {
+  csv: 'csv',
+  xlsx: 'xlsx',
+  markdown: 'md'
+};
+
+/**
+ * Parse report options from loosely typed input (tool arguments or query
+ * strings), rejecting unknown formats and columns.
+ */
+export function parseReportOptions(input: { format?: unknown; columns?: unknown; questionKeys?: unknown }): ReportOptions {
+  const toList = (value: unknown): string[] | undefined => {
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+    return Array.isArray(value) ? value.map(String) : String(value).split(',').map(item => item.trim()).filter(Boolean);
+  };
+
+  const format = (input.format ?? 'csv') as ReportFormat;
+  if (!REPORT_FORMATS.includes(format)) {
+    throw new Error(`format must be one of ${REPORT_FORMATS.join(', ')}`);
+  }
+
+  const columns = toList(input.columns);
+  const unknownColumns = columns?.filter(column => !REPORT_COLUMNS.includes(column as ReportColumn)) ?? [];
+  if (unknownColumns.length > 0) {
+    throw new Error(`Unknown report columns: ${unknownColumns.join(', ')} (available: ${REPORT_COLUMNS.join(', ')})`);
+  }
+
+  return {
+    format,
+    columns: columns as ReportColumn[] | undefined,
+    questionKeys: toList(input.questionKeys)
+  };
+}
+
+function buildTable(
+  applicationsData: EventApplicationsData,
+  evaluationsData: EventEvaluationsData,
+  criteriaData: EvaluationCriteriaData,
+  options: ReportOptions
+): ReportTable {
+  const columns = options.columns?.length ? options.columns : [...REPORT_COLUMNS];
+  const questionKeys = options.questionKeys ?? [];
+  const criteria = criteriaData.criteria.filter(criterion => criterion.isActive).sort((a, b) => a.order - b.order);
+
+  const ranking = new Map(rankApplications(evaluationsData, criteriaData).ranking.map(entry => [entry.applicationId, entry]));
+  // Scores and counts cover the same completed evaluations as the ranking
+  const evaluationsByApplication = groupBy(selectEvaluations(evaluationsData).evaluations, evaluation => evaluation.applicationId);
+
+  const headers = columns.flatMap(column => column === 'criteriaScores' ? criteria.map(criterion => criterion.name) : [column]);
+  headers.push(...questionKeys);
+
+  // Ranked applications first, in rank order, then the unranked ones
+  const applications = [...applicationsData.applications].sort((a, b) =>
+    (ranking.get(a.id)?.rank ?? Infinity) - (ranking.get(b.id)?.rank ?? Infinity) || a.id.localeCompare(b.id)
+  );
+
+  const rows = applications.map(application => {
+    const ranked = ranking.get(application.id);
+    const evaluations = evaluationsByApplication.get(application.id) ?? [];
+    const values: Record<Exclude<ReportColumn, 'criteriaScores'>, Cell> = {
+      rank: ranked?.rank ?? null,
+      applicationId: application.id,
+      applicantName: application.applicant?.name ?? null,
+      applicantEmail: application.applicant?.email ?? null,
+      status: application.status,
+      language: application.language,
+      submittedAt: application.submittedAt ?? null,
+      completionPercentage: application.completionPercentage,
+      evaluationCount: evaluations.length,
+      weightedScore: ranked?.weightedScore ?? null
+    };
+
+    const row = columns.flatMap<Cell>(column => column === 'criteriaScores'
+      ? criteria.map(criterion => round(mean(evaluations.flatMap(evaluation =>
+        evaluation.scores.filter(score => score.criteriaId === criterion.id).map(score => score.score)
+      ))))
+      : [values[column]]);
+
+    const answers = new Map(application.responses.map(response => [response.questionKey, response.answer]));
+    row.push(...questionKeys.map(questionKey => answers.get(questionKey) ?? null));
+    return row;
+  });
+
+  const eventName = evaluationsData.event?.name ?? criteriaData.event?.name ?? applicationsData.eventId;
+  return { title: `${eventName} — Application Report`, headers, rows };
+}
+
+function escapeCsv(cell: Cell): string {
+  if (cell === null) {
+    return '';
+  }
+  // Neutralise spreadsheet formulas in applicant-provided text
+  const text = typeof cell === 'string' && /^[=+\-@]/.test(cell) ? `'${cell}` : String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function renderCsv(table: ReportTable): Buffer {
+  const lines = [table.headers, ...table.rows].map(row => row.map(escapeCsv).join(','));
+  return Buffer.from(`${lines.join('\r\n')}\r\n`, 'utf8');
+}
+
+function escapeMarkdown(cell: Cell): string {
+  return cell === null ? '' : String(cell).replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+function renderMarkdown(table: ReportTable, evaluationsData: EventEvaluationsData): Buffer {
+  const { statistics } = evaluationsData;
+  const lines = [
+    `# ${table.title}`,
+    '',
+    `Generated ${new Date().toISOString()}`,
+    '',
+    '## Summary',
+    '',
+    `- Applications: ${table.rows.length}`,
+    `- Evaluations: ${statistics.totalEvaluations} from ${statistics.uniqueReviewers} reviewers`,
+    `- Recommendations: ${Object.entries(statistics.recommendations).map(([recommendation, count]) => `${recommendation} ${count}`).join(', ')}`,
+    `- Average overall score: ${round(statistics.averageOverallScore, 2)}`,
+    '',
+    '## Applications',
+    '',
+    `| ${table.headers.map(escapeMarkdown).join(' | ')} |`,
+    `| ${table.headers.map(() => '---').join(' | ')} |`,
+    ...table.rows.map(row => `| ${row.map(escapeMarkdown).join(' | ')} |`)
+  ];
+  return Buffer.from(`${lines.join('\n')}\n`, 'utf8');
+}
+
+async function renderXlsx(table: ReportTable): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'ftc-platform-mcp';
+  workbook.created = new Date();
+
+  const sheet = workbook.addWorksheet('Applications', { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.addRow(table.headers).font = { bold: true };
+  for (const row of table.rows) {
+    sheet.addRow(row);
+  }
+  sheet.columns.forEach(column => {
+    column.width = 18;
+  });
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+/**
+ * Render an event report of applications, selected responses, per-criterion
+ * mean scores and the weighted ranking result.
+ */
+export async function renderEventReport(
+  applicationsData: EventApplicationsData,
+  evaluationsData: EventEvaluationsData,
+  criteriaData: EvaluationCriteriaData,
+  options: ReportOptions
+): Promise<RenderedReport> {
+  const table = buildTable(applicationsData, evaluationsData, criteriaData, options);
+
+  let body: Buffer;
+  switch (options.format) {
+    case 'csv':
+      body = renderCsv(table);
+      break;
+    case 'markdown':
+      body = renderMarkdown(table, evaluationsData);
+      break;
+    case 'xlsx':
+      body = await renderXlsx(table);
+      break;
+  }
+
+  const date = new Date().toISOString().slice(0, 10);
+  return {
+    filename: `event-${applicationsData.eventId}-report-${date}.${EXTENSIONS[options.format]}`,
+    mimeType: MIME_TYPES[options.format],
+    body
+  };
+}
+
+/**
+ * Fetch an event's applications, evaluations and criteria and render its report
+ */
+export async function buildEventReport(reader: PlatformReader, eventId: string, options: ReportOptions): Promise<RenderedReport> {
+  const [applications, evaluations, criteria] = await Promise.all([
+    reader.getEventApplications(eventId),
+    reader.getEventEvaluations(eventId),
+    reader.getEvaluationCriteria(eventId),
+  ]);
+  // AI drafts are not committee scores
+  const humanEvaluations = selectEvaluations(evaluations, {
+    includeDrafts: true,
+    excludeReviewerIds: [reader.reviewerIdFor(eventId, getAiReviewer().id)]
+  });
+  return renderEventReport(applications, humanEvaluations, criteria, options);
+}
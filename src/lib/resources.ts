@@ -0,0 +1,151 @@
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import type { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import type { PlatformReader } from './api-client.js';
+
+interface ResourceDefinition {
+  template: ResourceTemplate;
+  matcher: UriTemplate;
+  /** Tools exposing the same data; a client must be allowed all of them to list or read the resource */
+  tools: string[];
+  list(apiClient: PlatformReader, eventId: string): Promise<Resource[]>;
+  read(apiClient: PlatformReader, variables: Record<string, string>): Promise<unknown>;
+}
+
+const JSON_MIME_TYPE = 'application/json';
+
+function defineResource(
+  template: ResourceTemplate,
+  handlers: Pick<ResourceDefinition, 'tools' | 'list' | 'read'>
+): ResourceDefinition {
+  return { template, matcher: new UriTemplate(template.uriTemplate), ...handlers };
+}
+
+const resourceDefinitions: ResourceDefinition[] = [
+  defineResource(
+    {
+      uriTemplate: 'ftc://events/{eventId}/criteria',
+      name: 'Evaluation criteria',
+      description: 'Scoring rubric for an event: criteria, weights, score ranges and scoring guidance',
+      mimeType: JSON_MIME_TYPE,
+    },
+    {
+      tools: ['get_evaluation_criteria'],
+      list: async (_apiClient, eventId) => [{
+        uri: `ftc://events/${eventId}/criteria`,
+        name: `Evaluation criteria (${eventId})`,
+        mimeType: JSON_MIME_TYPE,
+      }],
+      read: (apiClient, { eventId }) => apiClient.getEvaluationCriteria(eventId),
+    }
+  ),
+  defineResource(
+    {
+      uriTemplate: 'ftc://events/{eventId}/questions',
+      name: 'Application questions',
+      description: 'Question set for an event, including types, options and requirements',
+      mimeType: JSON_MIME_TYPE,
+    },
+    {
+      tools: ['get_application_questions'],
+      list: async (_apiClient, eventId) => [{
+        uri: `ftc://events/${eventId}/questions`,
+        name: `Application questions (${eventId})`,
+        mimeType: JSON_MIME_TYPE,
+      }],
+      read: (apiClient, { eventId }) => apiClient.getApplicationQuestions(eventId),
+    }
+  ),
+  defineResource(
+    {
+      uriTemplate: 'ftc://events/{eventId}/applications/{applicationId}',
+      name: 'Application',
+      description: 'A single application with applicant information and responses to all questions',
+      mimeType: JSON_MIME_TYPE,
+    },
+    {
+      tools: ['get_event_applications'],
+      list: async (apiClient, eventId) => {
+        const { applications } = await apiClient.getEventApplications(eventId);
+        return applications.map(application => ({
+          uri: `ftc://events/${eventId}/applications/${application.id}`,
+          name: `Application ${application.applicant?.name ?? application.id}`,
+          mimeType: JSON_MIME_TYPE,
+        }));
+      },
+      read: async (apiClient, { eventId, applicationId }) => {
+        const { applications } = await apiClient.getEventApplications(eventId);
+        const application = applications.find(candidate => candidate.id === applicationId);
+        if (!application) {
+          throw new Error(`Application not found: ${applicationId}`);
+        }
+        return application;
+      },
+    }
+  ),
+];
+
+/**
+ * Event IDs whose resources are advertised by `resources/list`.
+ * Templates remain readable for any event ID.
+ */
+export function getListedEventIds(): string[] {
+  return (process.env.MCP_RESOURCE_EVENT_IDS ?? '')
+    .split(',')
+    .map(eventId => eventId.trim())
+    .filter(Boolean);
+}
+
+export function getResourceTemplates(canRead: (tools: string[]) => boolean = () => true): ResourceTemplate[] {
+  return resourceDefinitions.filter(definition => canRead(definition.tools)).map(definition => definition.template);
+}
+
+export async function listResources(apiClient: PlatformReader, eventIds: string[], canRead: (tools: string[]) => boolean = () => true): Promise<Resource[]> {
+  const definitions = resourceDefinitions.filter(definition => canRead(definition.tools));
+  const resources: Resource[] = [];
+  for (const eventId of eventIds) {
+    for (const definition of definitions) {
+      resources.push(...await definition.list(apiClient, eventId));
+    }
+  }
+  return resources;
+}
+
+/**
+ * Event a resource URI belongs to and the tools whose data it exposes, or
+ * null when it matches no template
+ */
+export function getResourceScope(uri: string): { eventId: string; tools: string[] } | null {
+  for (const definition of resourceDefinitions) {
+    const match = definition.matcher.match(uri);
+    if (match) {
+      const eventId = Array.isArray(match.eventId) ? match.eventId[0] : match.eventId;
+      return { eventId: decodeURIComponent(eventId), tools: definition.tools };
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolve a resource URI against the known templates and fetch its contents.
+ * Returns null when the URI does not match any template.
+ */
+export async function readResource(apiClient: PlatformReader, uri: string): Promise<{ uri: string; mimeType: string; text: string } | null> {
+  for (const definition of resourceDefinitions) {
+    const match = definition.matcher.match(uri);
+    if (!match) {
+      continue;
+    }
+
+    const variables = Object.fromEntries(
+      Object.entries(match).map(([key, value]) => [key, decodeURIComponent(Array.isArray(value) ? value[0] : value)])
+    );
+    const data = await definition.read(apiClient, variables);
+    return {
+      uri,
+      mimeType: JSON_MIME_TYPE,
+      text: JSON.stringify(data, null, 2),
+    };
+  }
+
+  return null;
+}
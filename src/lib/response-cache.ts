@@ -0,0 +1,147 @@
+export type LoadResult<T> =
+  | { notModified: true }
+  | { notModified: false; data: T; etag?: string };
+
+interface CacheEntry {
+  data: unknown;
+  etag?: string;
+  expiresAt: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+  revalidations: number;
+  dedupedRequests: number;
+  evictions: number;
+}
+
+/**
+ * In-memory cache for upstream responses, keyed by endpoint.
+ *
+ * Expired entries that carry an ETag are revalidated with If-None-Match instead
+ * of being refetched, and concurrent loads of the same key share one request.
+ * Keys include query strings, so the cache holds at most `maxEntries` entries,
+ * evicting the least recently used.
+ */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<unknown>>();
+  // Bumped by invalidate(), so loads started before it are not cached
+  private generation = 0;
+  private stats = { hits: 0, misses: 0, revalidations: 0, dedupedRequests: 0, evictions: 0 };
+
+  constructor(private maxEntries = 500) {}
+
+  async getOrLoad<T>(key: string, ttlMs: number, load: (etag?: string) => Promise<LoadResult<T>>): Promise<T> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Map order is insertion order; re-inserting marks the entry most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    if (entry && entry.expiresAt > Date.now()) {
+      this.stats.hits++;
+      return entry.data as T;
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.stats.dedupedRequests++;
+      return pending as Promise<T>;
+    }
+
+    const request = this.load(key, ttlMs, entry, load).finally(() => {
+      if (this.inFlight.get(key) === request) {
+        this.inFlight.delete(key);
+      }
+    });
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  private async load<T>(
+    key: string,
+    ttlMs: number,
+    entry: CacheEntry | undefined,
+    load: (etag?: string) => Promise<LoadResult<T>>
+  ): Promise<T> {
+    const generation = this.generation;
+    const result = await load(entry?.etag);
+
+    if (result.notModified) {
+      if (!entry) {
+        throw new Error(`Upstream returned 304 Not Modified for uncached request: ${key}`);
+      }
+      this.stats.revalidations++;
+      entry.expiresAt = Date.now() + ttlMs;
+      return entry.data as T;
+    }
+
+    this.stats.misses++;
+    if (generation !== this.generation) {
+      // Invalidated while loading: the result may predate the invalidation
+      return result.data;
+    }
+    this.entries.delete(key);
+    if (ttlMs > 0 || result.etag) {
+      this.entries.set(key, { data: result.data, etag: result.etag, expiresAt: Date.now() + ttlMs });
+      this.evict();
+    }
+    return result.data;
+  }
+
+  /**
+   * Drop expired entries that cannot be revalidated, then the least recently
+   * used entries beyond `maxEntries`
+   */
+  private evict(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (!entry.etag && entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(key);
+      this.stats.evictions++;
+    }
+  }
+
+  /**
+   * Remove every entry whose key contains the given fragment, or all entries
+   * when no fragment is given. Loads already in progress are not cached.
+   * Returns the number of entries removed.
+   */
+  invalidate(fragment?: string): number {
+    this.generation++;
+    for (const key of this.inFlight.keys()) {
+      if (!fragment || key.includes(fragment)) {
+        this.inFlight.delete(key);
+      }
+    }
+
+    if (!fragment) {
+      const count = this.entries.size;
+      this.entries.clear();
+      return count;
+    }
+
+    let count = 0;
+    for (const key of this.entries.keys()) {
+      if (key.includes(fragment)) {
+        this.entries.delete(key);
+        count++;
+      }
+    }
+    return count;
+  }
+
+  getStats(): CacheStats {
+    return { entries: this.entries.size, ...this.stats };
+  }
+}
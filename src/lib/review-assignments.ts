@@ -0,0 +1,260 @@
+import type { EventApplicationsData, EventEvaluationsData } from '../types/index.js';
+import { groupBy, mean, round, standardDeviation } from './statistics.js';
+
+export interface ConflictOfInterest {
+  reviewerId: string;
+  applicationId: string;
+}
+
+export interface ReviewAssignmentOptions {
+  /** Evaluations each application should reach, counting existing ones of any status */
+  targetEvaluations?: number;
+  /** Reviewers who may be assigned; defaults to everyone with an evaluation in the event */
+  reviewerIds?: string[];
+  /** Reviewers whose evaluations neither count as coverage nor receive assignments */
+  excludeReviewerIds?: string[];
+  conflicts?: ConflictOfInterest[];
+  /** Maximum evaluations per reviewer, existing plus suggested */
+  maxLoad?: number;
+  /** Also plan reviews for applications not marked complete */
+  includeIncomplete?: boolean;
+}
+
+export interface ApplicationCoverage {
+  applicationId: string;
+  status: string;
+  evaluationCount: number;
+  completedCount: number;
+  reviewerIds: string[];
+  suggestedCount: number;
+  /** Evaluations still missing after the suggestions */
+  shortfall: number;
+}
+
+export interface ReviewerLoad {
+  reviewerId: string;
+  reviewerName?: string;
+  evaluationCount: number;
+  completedCount: number;
+  suggestedCount: number;
+  projectedLoad: number;
+}
+
+export interface SuggestedAssignment {
+  applicationId: string;
+  reviewerId: string;
+  /** Evaluations the application has, existing plus earlier suggestions, before this one */
+  coverageBefore: number;
+  /** Reviewer's load, existing plus earlier suggestions, before this one */
+  reviewerLoadBefore: number;
+}
+
+export interface UnfilledApplication {
+  applicationId: string;
+  missing: number;
+  reason: string;
+}
+
+interface LoadSummary {
+  mean: number | null;
+  standardDeviation: number | null;
+  min: number | null;
+  max: number | null;
+}
+
+export interface ReviewAssignmentPlan {
+  eventId: string;
+  targetEvaluations: number;
+  coverage: {
+    applications: ApplicationCoverage[];
+    /** Number of applications by current evaluation count */
+    distribution: Record<string, number>;
+    belowTarget: number;
+    belowTargetAfterPlan: number;
+  };
+  reviewers: ReviewerLoad[];
+  load: {
+    current: LoadSummary;
+    projected: LoadSummary;
+  };
+  suggestions: SuggestedAssignment[];
+  unfilled: UnfilledApplication[];
+  options: {
+    targetEvaluations: number;
+    maxLoad: number | null;
+    includeIncomplete: boolean;
+    conflicts: number;
+    reviewerPool: number;
+  };
+  metadata: {
+    generatedAt: string;
+    method: string;
+  };
+}
+
+function isCompleted(status: string, completedAt?: string): boolean {
+  return status === 'COMPLETED' || Boolean(completedAt);
+}
+
+function summarizeLoad(loads: number[]): LoadSummary {
+  if (loads.length === 0) {
+    return { mean: null, standardDeviation: null, min: null, max: null };
+  }
+  return {
+    mean: round(mean(loads), 2),
+    standardDeviation: round(standardDeviation(loads), 2),
+    min: Math.min(...loads),
+    max: Math.max(...loads)
+  };
+}
+
+/**
+ * Report evaluation coverage per application and load per reviewer, then
+ * greedily suggest assignments until every application reaches the target:
+ * the least-covered application is served first, by the least-loaded
+ * eligible reviewer. A reviewer is never suggested for an application they
+ * already evaluated or have a conflict of interest with.
+ */
+export function planReviewAssignments(
+  applicationsData: EventApplicationsData,
+  evaluationsData: EventEvaluationsData,
+  options: ReviewAssignmentOptions = {}
+): ReviewAssignmentPlan {
+  const targetEvaluations = options.targetEvaluations ?? 3;
+  const maxLoad = options.maxLoad ?? null;
+  const includeIncomplete = options.includeIncomplete ?? false;
+  const excluded = new Set(options.excludeReviewerIds ?? []);
+
+  const applications = applicationsData.applications.filter(application => includeIncomplete || application.isComplete);
+  const evaluations = evaluationsData.evaluations.filter(evaluation => !excluded.has(evaluation.reviewerId));
+  const byApplication = groupBy(evaluations, evaluation => evaluation.applicationId);
+  const byReviewer = groupBy(evaluations, evaluation => evaluation.reviewerId);
+
+  const poolIds = options.reviewerIds?.length ? options.reviewerIds : [...byReviewer.keys()];
+  const pool = [...new Set(poolIds)].filter(reviewerId => !excluded.has(reviewerId)).sort();
+  const conflicts = new Set((options.conflicts ?? []).map(conflict => `${conflict.reviewerId}\u0000${conflict.applicationId}`));
+
+  const reviewersOf = new Map(applications.map(application => [
+    application.id,
+    new Set((byApplication.get(application.id) ?? []).map(evaluation => evaluation.reviewerId))
+  ]));
+  // Load counts every evaluation in the event, including ones on applications not planned here
+  const loads = new Map(pool.map(reviewerId => [reviewerId, byReviewer.get(reviewerId)?.length ?? 0]));
+  const suggestedFor = new Map<string, number>();
+
+  const suggestions: SuggestedAssignment[] = [];
+  const unfilled: UnfilledApplication[] = [];
+  const open = new Set(applications.filter(application => reviewersOf.get(application.id)!.size < targetEvaluations).map(application => application.id));
+
+  while (open.size > 0) {
+    // Least-covered application first, so nothing stays at zero while others gain a third review
+    let applicationId = '';
+    let coverage = Infinity;
+    for (const candidate of open) {
+      const candidateCoverage = reviewersOf.get(candidate)!.size;
+      if (candidateCoverage < coverage || (candidateCoverage === coverage && candidate < applicationId)) {
+        applicationId = candidate;
+        coverage = candidateCoverage;
+      }
+    }
+
+    const assigned = reviewersOf.get(applicationId)!;
+    let reviewerId: string | null = null;
+    for (const candidate of pool) {
+      const load = loads.get(candidate)!;
+      if (assigned.has(candidate) || conflicts.has(`${candidate}\u0000${applicationId}`) || (maxLoad !== null && load >= maxLoad)) {
+        continue;
+      }
+      if (reviewerId === null || load < loads.get(reviewerId)!) {
+        reviewerId = candidate;
+      }
+    }
+
+    if (reviewerId === null) {
+      const available = pool.filter(candidate => !assigned.has(candidate) && !conflicts.has(`${candidate}\u0000${applicationId}`));
+      unfilled.push({
+        applicationId,
+        missing: targetEvaluations - coverage,
+        reason: available.length === 0
+          ? 'Every reviewer in the pool has already evaluated the application or has a conflict of interest'
+          : `Every eligible reviewer is at the maximum load of ${maxLoad}`
+      });
+      open.delete(applicationId);
+      continue;
+    }
+
+    suggestions.push({ applicationId, reviewerId, coverageBefore: coverage, reviewerLoadBefore: loads.get(reviewerId)! });
+    assigned.add(reviewerId);
+    loads.set(reviewerId, loads.get(reviewerId)! + 1);
+    suggestedFor.set(applicationId, (suggestedFor.get(applicationId) ?? 0) + 1);
+    if (assigned.size >= targetEvaluations) {
+      open.delete(applicationId);
+    }
+  }
+
+  const coverage: ApplicationCoverage[] = applications
+    .map(application => {
+      const existing = byApplication.get(application.id) ?? [];
+      const reviewerIds = [...new Set(existing.map(evaluation => evaluation.reviewerId))].sort();
+      const suggestedCount = suggestedFor.get(application.id) ?? 0;
+      return {
+        applicationId: application.id,
+        status: application.status,
+        evaluationCount: reviewerIds.length,
+        completedCount: existing.filter(evaluation => isCompleted(evaluation.status, evaluation.completedAt)).length,
+        reviewerIds,
+        suggestedCount,
+        shortfall: Math.max(targetEvaluations - reviewerIds.length - suggestedCount, 0)
+      };
+    })
+    .sort((a, b) => a.evaluationCount - b.evaluationCount || a.applicationId.localeCompare(b.applicationId));
+
+  const distribution: Record<string, number> = {};
+  for (const application of coverage) {
+    distribution[application.evaluationCount] = (distribution[application.evaluationCount] ?? 0) + 1;
+  }
+
+  const reviewers: ReviewerLoad[] = pool
+    .map(reviewerId => {
+      const existing = byReviewer.get(reviewerId) ?? [];
+      const evaluationCount = existing.length;
+      return {
+        reviewerId,
+        reviewerName: existing[0]?.reviewer.name,
+        evaluationCount,
+        completedCount: existing.filter(evaluation => isCompleted(evaluation.status, evaluation.completedAt)).length,
+        suggestedCount: loads.get(reviewerId)! - evaluationCount,
+        projectedLoad: loads.get(reviewerId)!
+      };
+    })
+    .sort((a, b) => b.evaluationCount - a.evaluationCount || a.reviewerId.localeCompare(b.reviewerId));
+
+  return {
+    eventId: applicationsData.eventId,
+    targetEvaluations,
+    coverage: {
+      applications: coverage,
+      distribution,
+      belowTarget: coverage.filter(application => application.evaluationCount < targetEvaluations).length,
+      belowTargetAfterPlan: coverage.filter(application => application.shortfall > 0).length
+    },
+    reviewers,
+    load: {
+      current: summarizeLoad(reviewers.map(reviewer => reviewer.evaluationCount)),
+      projected: summarizeLoad(reviewers.map(reviewer => reviewer.projectedLoad))
+    },
+    suggestions,
+    unfilled,
+    options: {
+      targetEvaluations,
+      maxLoad,
+      includeIncomplete,
+      conflicts: conflicts.size,
+      reviewerPool: pool.length
+    },
+    metadata: {
+      generatedAt: new Date().toISOString(),
+      method: 'Coverage counts distinct reviewers with an evaluation of any status. Suggestions are made one at a time: the application with the fewest evaluations (existing plus suggested) gets the reviewer with the lowest load who has not evaluated it, has no conflict of interest and is under maxLoad. Ties are broken by ID.'
+    }
+  };
+}
@@ -0,0 +1,295 @@
+import { z } from 'zod';
+import { LocalizedError } from './i18n.js';
+
+/**
+ * Runtime schemas mirroring the upstream payload interfaces in src/types/index.ts.
+ * Objects are passthrough so that new upstream fields do not fail validation;
+ * optional fields also accept null, which the platform uses for missing values.
+ */
+
+const applicantSchema = z.object({
+  id: z.string(),
+  name: z.string().nullish(),
+  email: z.string().nullish(),
+}).passthrough();
+
+const eventInfoSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullish(),
+  type: z.string(),
+  startDate: z.string(),
+  endDate: z.string(),
+}).passthrough();
+
+const applicationResponseSchema = z.object({
+  questionId: z.string(),
+  questionKey: z.string(),
+  questionText: z.string(),
+  questionType: z.string(),
+  required: z.boolean(),
+  answer: z.string(),
+  order: z.number(),
+}).passthrough();
+
+const applicationSchema = z.object({
+  id: z.string(),
+  userId: z.string().nullish(),
+  eventId: z.string(),
+  status: z.string(),
+  language: z.string(),
+  isComplete: z.boolean(),
+  submittedAt: z.string().nullish(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  applicant: applicantSchema.nullish(),
+  event: z.object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string().nullish(),
+    startDate: z.string(),
+    endDate: z.string(),
+  }).passthrough().nullish(),
+  responses: z.array(applicationResponseSchema),
+  responseCount: z.number(),
+  completionPercentage: z.number(),
+}).passthrough();
+
+export const eventApplicationsSchema = z.object({
+  eventId: z.string(),
+  applications: z.array(applicationSchema),
+  totalCount: z.number(),
+  nextCursor: z.string().nullish(),
+  metadata: z.object({
+    generatedAt: z.string(),
+    purpose: z.string(),
+  }).passthrough(),
+}).passthrough();
+
+const scoreRangeSchema = z.object({
+  min: z.number(),
+  max: z.number(),
+}).passthrough();
+
+const evaluationScoreSchema = z.object({
+  criteriaId: z.string(),
+  criteriaName: z.string(),
+  criteriaCategory: z.string(),
+  criteriaWeight: z.number(),
+  scoreRange: scoreRangeSchema,
+  score: z.number(),
+  reasoning: z.string().nullish(),
+  normalizedScore: z.number(),
+}).passthrough();
+
+const evaluationCommentSchema = z.object({
+  id: z.string(),
+  questionKey: z.string().nullish(),
+  comment: z.string(),
+  isPrivate: z.boolean(),
+  createdAt: z.string(),
+}).passthrough();
+
+const evaluationSchema = z.object({
+  id: z.string(),
+  applicationId: z.string(),
+  reviewerId: z.string(),
+  status: z.string(),
+  stage: z.string(),
+  overallScore: z.number().nullish(),
+  overallComments: z.string().nullish(),
+  recommendation: z.string().nullish(),
+  confidence: z.number().nullish(),
+  timeSpentMinutes: z.number().nullish(),
+  completedAt: z.string().nullish(),
+  application: z.object({
+    id: z.string(),
+    userId: z.string().nullish(),
+    status: z.string(),
+    submittedAt: z.string().nullish(),
+    applicant: applicantSchema.nullish(),
+  }).passthrough(),
+  reviewer: z.object({
+    id: z.string(),
+    name: z.string().nullish(),
+    role: z.string().nullish(),
+  }).passthrough(),
+  scores: z.array(evaluationScoreSchema),
+  comments: z.array(evaluationCommentSchema),
+  video: z.object({
+    watched: z.boolean(),
+    quality: z.number().nullish(),
+    timestamps: z.any(),
+  }).passthrough(),
+  metrics: z.object({
+    averageScore: z.number().nullish(),
+    weightedScore: z.number().nullish(),
+    categoryScores: z.record(z.array(z.number())),
+    completeness: z.object({
+      hasOverallScore: z.boolean(),
+      hasRecommendation: z.boolean(),
+      hasComments: z.boolean(),
+      scoreCount: z.number(),
+    }).passthrough(),
+  }).passthrough(),
+}).passthrough();
+
+export const eventEvaluationsSchema = z.object({
+  eventId: z.string(),
+  event: eventInfoSchema,
+  evaluations: z.array(evaluationSchema),
+  statistics: z.object({
+    totalEvaluations: z.number(),
+    uniqueApplications: z.number(),
+    uniqueReviewers: z.number(),
+    recommendations: z.object({
+      ACCEPT: z.number(),
+      REJECT: z.number(),
+      WAITLIST: z.number(),
+      NEEDS_MORE_INFO: z.number(),
+    }).passthrough(),
+    averageOverallScore: z.number(),
+    averageConfidence: z.number(),
+  }).passthrough(),
+  metadata: z.object({
+    generatedAt: z.string(),
+    purpose: z.string(),
+    usage: z.string(),
+  }).passthrough(),
+}).passthrough();
+
+const criterionSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  category: z.string(),
+  weight: z.number(),
+  scoreRange: scoreRangeSchema.extend({ range: z.number() }),
+  order: z.number(),
+  isActive: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  categoryDescription: z.string(),
+  scoringGuidance: z.string(),
+}).passthrough();
+
+const categoryRecord = <T extends z.ZodTypeAny>(schema: T) => z.object({
+  TECHNICAL: schema,
+  PROJECT: schema,
+  COMMUNITY_FIT: schema,
+  VIDEO: schema,
+  OVERALL: schema,
+}).passthrough();
+
+export const evaluationCriteriaSchema = z.object({
+  eventId: z.string(),
+  event: eventInfoSchema,
+  criteria: z.array(criterionSchema),
+  categorizedCriteria: categoryRecord(z.array(criterionSchema)),
+  totalCount: z.number(),
+  scoring: z.object({
+    totalMaxScore: z.number(),
+    weightedMaxScore: z.number(),
+    averageWeight: z.number(),
+    categoryWeights: categoryRecord(z.number()),
+  }).passthrough(),
+  metadata: z.object({
+    generatedAt: z.string(),
+    purpose: z.string(),
+    usage: z.string(),
+  }).passthrough(),
+}).passthrough();
+
+const questionSchema = z.object({
+  id: z.string(),
+  eventId: z.string(),
+  order: z.number(),
+  questionKey: z.string(),
+  questionText: z.object({
+    en: z.string(),
+    es: z.string(),
+  }).passthrough(),
+  questionType: z.string(),
+  required: z.boolean(),
+  options: z.array(z.string()).nullish(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  isMultipleChoice: z.boolean(),
+  isTextInput: z.boolean(),
+  isContactInfo: z.boolean(),
+  maxOptions: z.number(),
+}).passthrough();
+
+export const applicationQuestionsSchema = z.object({
+  eventId: z.string(),
+  event: eventInfoSchema.nullish(),
+  questions: z.array(questionSchema),
+  totalCount: z.number(),
+  questionTypes: z.record(z.number()),
+  metadata: z.object({
+    generatedAt: z.string(),
+    purpose: z.string(),
+    totalRequired: z.number(),
+    totalOptional: z.number(),
+  }).passthrough(),
+}).passthrough();
+
+export const testConnectionSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  timestamp: z.string(),
+}).passthrough();
+
+export const evaluationDraftResultSchema = z.object({
+  id: z.string(),
+  applicationId: z.string(),
+  status: z.string(),
+}).passthrough();
+
+export type ValidationMode = 'strict' | 'lenient';
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown in strict mode when an upstream payload does not match its schema
+ */
+export class UpstreamValidationError extends LocalizedError {
+  constructor(public endpoint: string, public issues: ValidationIssue[]) {
+    super('errors.upstreamPayload', { endpoint, issues: issues.map(issue => `${issue.path}: ${issue.message}`).join('; ') });
+    this.name = 'UpstreamValidationError';
+  }
+}
+
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>((formatted, segment) => (
+    typeof segment === 'number' ? `${formatted}[${segment}]` : formatted ? `${formatted}.${segment}` : segment
+  ), '') || '(root)';
+}
+
+export function getValidationMode(): ValidationMode {
+  const mode = process.env.MCP_VALIDATION_MODE ?? 'strict';
+  if (mode !== 'strict' && mode !== 'lenient') {
+    throw new Error(`Invalid MCP_VALIDATION_MODE: ${mode} (expected strict or lenient)`);
+  }
+  return mode;
+}
+
+/**
+ * Validate an upstream payload. Strict mode throws with the path of every
+ * invalid field; lenient mode logs the issues and returns the payload as-is.
+ */
+export function validatePayload<T>(schema: z.ZodTypeAny, data: unknown, endpoint: string, mode: ValidationMode): T {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => ({ path: formatPath(issue.path), message: issue.message }));
+    if (mode === 'strict') {
+      throw new UpstreamValidationError(endpoint, issues);
+    }
+    console.warn(`[API Client] Invalid upstream payload from ${endpoint}:`, issues);
+  }
+
+  return data as T;
+}
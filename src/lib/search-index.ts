@@ -0,0 +1,224 @@
+import { createHash } from 'node:crypto';
+import type { EventApplicationsData } from '../types/index.js';
+
+// Common English and Spanish words that carry no search signal
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'i', 'in', 'is', 'it',
+  'its', 'my', 'of', 'on', 'or', 'our', 'that', 'the', 'their', 'this', 'to', 'was', 'we', 'were', 'with', 'you',
+  'al', 'como', 'con', 'de', 'del', 'el', 'en', 'es', 'esta', 'este', 'la', 'las', 'lo', 'los', 'mi', 'mis',
+  'para', 'pero', 'por', 'que', 'se', 'si', 'sin', 'su', 'sus', 'un', 'una', 'unos', 'unas', 'y', 'yo'
+]);
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const SNIPPET_RADIUS = 80;
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+interface IndexedDocument {
+  applicationId: string;
+  questionKey: string;
+  text: string;
+  length: number;
+}
+
+export interface SearchOptions {
+  questionKeys?: string[];
+  limit?: number;
+}
+
+export interface SearchMatch {
+  applicationId: string;
+  score: number;
+  matchedTerms: string[];
+  snippets: Array<{ questionKey: string; snippet: string }>;
+}
+
+export interface SearchResult {
+  query: string;
+  terms: string[];
+  matches: SearchMatch[];
+  totalMatches: number;
+}
+
+/**
+ * Fold case and diacritics so "Educación" and "educacion" match, and strip
+ * plural endings shared by English and Spanish.
+ */
+function normalizeTerm(word: string): string {
+  const folded = word.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+  if (folded.length > 4 && folded.endsWith('es')) {
+    return folded.slice(0, -2);
+  }
+  if (folded.length > 3 && folded.endsWith('s') && !folded.endsWith('ss')) {
+    return folded.slice(0, -1);
+  }
+  return folded;
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const term = normalizeTerm(match[0]);
+    if (!STOPWORDS.has(term) && !STOPWORDS.has(match[0].toLowerCase())) {
+      tokens.push({ term, start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+  return tokens;
+}
+
+function buildSnippet(text: string, tokens: Token[], terms: Set<string>): string {
+  const hits = tokens.filter(token => terms.has(token.term));
+  if (hits.length === 0) {
+    return text.slice(0, SNIPPET_RADIUS * 2);
+  }
+
+  const start = Math.max(hits[0].start - SNIPPET_RADIUS, 0);
+  const end = Math.min(hits[0].end + SNIPPET_RADIUS, text.length);
+
+  let snippet = '';
+  let cursor = start;
+  for (const hit of hits.filter(token => token.start >= start && token.end <= end)) {
+    snippet += `${text.slice(cursor, hit.start)}**${text.slice(hit.start, hit.end)}**`;
+    cursor = hit.end;
+  }
+  snippet += text.slice(cursor, end);
+
+  return `${start > 0 ? '…' : ''}${snippet.replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * BM25 inverted index over application answers. Each (application, question)
+ * pair is a document so searches can be limited to chosen question keys.
+ */
+export class SearchIndex {
+  private documents: IndexedDocument[] = [];
+  private postings = new Map<string, Map<number, number>>();
+
+  constructor(data: EventApplicationsData, readonly fingerprint: string) {
+    for (const application of data.applications) {
+      for (const response of application.responses) {
+        if (!response.answer?.trim()) {
+          continue;
+        }
+        const documentId = this.documents.length;
+        const tokens = tokenize(response.answer);
+        this.documents.push({
+          applicationId: application.id,
+          questionKey: response.questionKey,
+          text: response.answer,
+          length: tokens.length
+        });
+        for (const { term } of tokens) {
+          const posting = this.postings.get(term) ?? new Map<number, number>();
+          posting.set(documentId, (posting.get(documentId) ?? 0) + 1);
+          this.postings.set(term, posting);
+        }
+      }
+    }
+  }
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  search(query: string, options: SearchOptions = {}): SearchResult {
+    const terms = [...new Set(tokenize(query).map(token => token.term))];
+    const keys = options.questionKeys?.length ? new Set(options.questionKeys) : null;
+    const inScope = (document: IndexedDocument) => !keys || keys.has(document.questionKey);
+
+    const scopedDocuments = this.documents.filter(inScope);
+    const averageLength = scopedDocuments.reduce((total, document) => total + document.length, 0) / (scopedDocuments.length || 1);
+
+    const documentScores = new Map<number, { score: number; terms: Set<string> }>();
+    for (const term of terms) {
+      const posting = [...(this.postings.get(term) ?? new Map<number, number>()).entries()]
+        .filter(([documentId]) => inScope(this.documents[documentId]));
+      if (posting.length === 0) {
+        continue;
+      }
+
+      const idf = Math.log(1 + (scopedDocuments.length - posting.length + 0.5) / (posting.length + 0.5));
+      for (const [documentId, frequency] of posting) {
+        const { length } = this.documents[documentId];
+        const termScore = idf * (frequency * (BM25_K1 + 1)) /
+          (frequency + BM25_K1 * (1 - BM25_B + BM25_B * length / (averageLength || 1)));
+        const entry = documentScores.get(documentId) ?? { score: 0, terms: new Set<string>() };
+        entry.score += termScore;
+        entry.terms.add(term);
+        documentScores.set(documentId, entry);
+      }
+    }
+
+    const byApplication = new Map<string, { score: number; terms: Set<string>; documents: Array<{ documentId: number; score: number; terms: Set<string> }> }>();
+    for (const [documentId, entry] of documentScores) {
+      const { applicationId } = this.documents[documentId];
+      const application = byApplication.get(applicationId) ?? { score: 0, terms: new Set<string>(), documents: [] };
+      application.score += entry.score;
+      entry.terms.forEach(term => application.terms.add(term));
+      application.documents.push({ documentId, ...entry });
+      byApplication.set(applicationId, application);
+    }
+
+    const matches = [...byApplication.entries()]
+      .map(([applicationId, application]) => ({
+        applicationId,
+        score: Math.round(application.score * 1000) / 1000,
+        matchedTerms: [...application.terms].sort(),
+        snippets: application.documents
+          .sort((a, b) => b.score - a.score)
+          .map(({ documentId, terms: matchedTerms }) => {
+            const document = this.documents[documentId];
+            return {
+              questionKey: document.questionKey,
+              snippet: buildSnippet(document.text, tokenize(document.text), matchedTerms)
+            };
+          })
+      }))
+      .sort((a, b) => b.score - a.score || a.applicationId.localeCompare(b.applicationId));
+
+    return {
+      query,
+      terms,
+      matches: options.limit !== undefined ? matches.slice(0, Math.max(options.limit, 0)) : matches,
+      totalMatches: matches.length
+    };
+  }
+}
+
+/**
+ * Hash of everything the index is built from, used to detect changed data
+ */
+function fingerprintApplications(data: EventApplicationsData): string {
+  const hash = createHash('sha256');
+  for (const application of data.applications) {
+    hash.update(`${application.id}\u0000${application.updatedAt}\u0000`);
+    for (const response of application.responses) {
+      hash.update(`${response.questionKey}\u0000${response.answer}\u0000`);
+    }
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Per-event search indexes, rebuilt whenever the application data changes
+ */
+export class SearchIndexRegistry {
+  private indexes = new Map<string, SearchIndex>();
+
+  getIndex(eventId: string, data: EventApplicationsData): { index: SearchIndex; rebuilt: boolean } {
+    const fingerprint = fingerprintApplications(data);
+    const existing = this.indexes.get(eventId);
+    if (existing && existing.fingerprint === fingerprint) {
+      return { index: existing, rebuilt: false };
+    }
+
+    const index = new SearchIndex(data, fingerprint);
+    this.indexes.set(eventId, index);
+    return { index, rebuilt: true };
+  }
+}
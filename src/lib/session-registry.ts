@@ -0,0 +1,194 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { ClientIdentity } from './client-tokens.js';
+
+export interface SessionLimits {
+  idleTimeoutMs: number;
+  maxLifetimeMs: number;
+  sweepIntervalMs: number;
+  /** 0 disables the cap */
+  maxSessions: number;
+  /** 0 disables the cap */
+  maxSessionsPerClient: number;
+}
+
+interface SessionRecord {
+  id: string;
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  /** Token the session was opened with, when client tokens or OAuth are configured */
+  client?: ClientIdentity;
+  /** Client name used for the per-client cap: the token name or the reported clientInfo name */
+  clientKey: string;
+  createdAt: number;
+  lastActivityAt: number;
+  requestCount: number;
+  toolCalls: Map<string, number>;
+}
+
+export interface SessionSummary {
+  sessionId: string;
+  client: string;
+  clientInfo: { name: string; version: string } | null;
+  createdAt: string;
+  lastActivityAt: string;
+  idleSeconds: number;
+  requestCount: number;
+  toolCallCount: number;
+  toolCalls: Record<string, number>;
+}
+
+function readMs(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function getSessionLimits(): SessionLimits {
+  return {
+    idleTimeoutMs: readMs('MCP_SESSION_IDLE_TIMEOUT_MS', 30 * 60 * 1000),
+    maxLifetimeMs: readMs('MCP_SESSION_MAX_LIFETIME_MS', 24 * 60 * 60 * 1000),
+    sweepIntervalMs: readMs('MCP_SESSION_SWEEP_INTERVAL_MS', 60 * 1000),
+    maxSessions: readMs('MCP_MAX_SESSIONS', 100),
+    maxSessionsPerClient: readMs('MCP_MAX_SESSIONS_PER_CLIENT', 20)
+  };
+}
+
+/**
+ * Active MCP sessions with their activity, expired by a periodic sweep when
+ * idle for too long or past their maximum lifetime.
+ */
+export class SessionRegistry {
+  private sessions = new Map<string, SessionRecord>();
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(readonly limits: SessionLimits = getSessionLimits()) {}
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  get(sessionId: string): SessionRecord | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  /**
+   * Why a new session for this client would exceed a cap, or null if it may be opened
+   */
+  getCapacityDenial(clientKey: string): string | null {
+    const { maxSessions, maxSessionsPerClient } = this.limits;
+    if (maxSessions > 0 && this.sessions.size >= maxSessions) {
+      return `Too many active sessions (limit ${maxSessions})`;
+    }
+    if (maxSessionsPerClient > 0) {
+      const clientSessions = [...this.sessions.values()].filter(session => session.clientKey === clientKey).length;
+      if (clientSessions >= maxSessionsPerClient) {
+        return `Too many active sessions for client "${clientKey}" (limit ${maxSessionsPerClient})`;
+      }
+    }
+    return null;
+  }
+
+  add(session: Pick<SessionRecord, 'id' | 'transport' | 'server' | 'client' | 'clientKey'>): void {
+    const now = Date.now();
+    this.sessions.set(session.id, { ...session, createdAt: now, lastActivityAt: now, requestCount: 0, toolCalls: new Map() });
+  }
+
+  remove(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Record an HTTP request on the session, refreshing its client token so
+   * scope changes from a reloaded registry apply immediately
+   */
+  touch(sessionId: string, client?: ClientIdentity): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.lastActivityAt = Date.now();
+      session.requestCount++;
+      if (client) {
+        session.client = client;
+      }
+    }
+  }
+
+  recordToolCall(sessionId: string, tool: string): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.toolCalls.set(tool, (session.toolCalls.get(tool) ?? 0) + 1);
+    }
+  }
+
+  /**
+   * Close a session's server and transport. Returns false for unknown sessions.
+   */
+  async terminate(sessionId: string, reason: string): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+    console.log(`[Sessions] Closing session ${sessionId}: ${reason}`);
+    this.sessions.delete(sessionId);
+    await session.server.close();
+    return true;
+  }
+
+  async closeAll(reason: string): Promise<void> {
+    for (const sessionId of [...this.sessions.keys()]) {
+      await this.terminate(sessionId, reason);
+    }
+  }
+
+  /**
+   * Terminate sessions that are idle or past their maximum lifetime
+   */
+  async sweep(now = Date.now()): Promise<number> {
+    const { idleTimeoutMs, maxLifetimeMs } = this.limits;
+    let expired = 0;
+    for (const session of [...this.sessions.values()]) {
+      if (maxLifetimeMs > 0 && now - session.createdAt >= maxLifetimeMs) {
+        await this.terminate(session.id, 'maximum lifetime reached');
+        expired++;
+      } else if (idleTimeoutMs > 0 && now - session.lastActivityAt >= idleTimeoutMs) {
+        await this.terminate(session.id, 'idle timeout');
+        expired++;
+      }
+    }
+    return expired;
+  }
+
+  startSweeping(): void {
+    if (this.sweepTimer || this.limits.sweepIntervalMs <= 0) {
+      return;
+    }
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch(error => console.error('[Sessions] Sweep failed:', error));
+    }, this.limits.sweepIntervalMs);
+    // The sweeper alone should not keep the process alive
+    this.sweepTimer.unref();
+  }
+
+  stopSweeping(): void {
+    clearInterval(this.sweepTimer);
+    this.sweepTimer = undefined;
+  }
+
+  list(now = Date.now()): SessionSummary[] {
+    return [...this.sessions.values()]
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(session => {
+        const clientInfo = session.server.getClientVersion();
+        return {
+          sessionId: session.id,
+          client: session.clientKey,
+          clientInfo: clientInfo ? { name: clientInfo.name, version: clientInfo.version } : null,
+          createdAt: new Date(session.createdAt).toISOString(),
+          lastActivityAt: new Date(session.lastActivityAt).toISOString(),
+          idleSeconds: Math.round((now - session.lastActivityAt) / 1000),
+          requestCount: session.requestCount,
+          toolCallCount: [...session.toolCalls.values()].reduce((total, count) => total + count, 0),
+          toolCalls: Object.fromEntries(session.toolCalls)
+        };
+      });
+  }
+}
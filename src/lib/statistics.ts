@@ -0,0 +1,79 @@
+export function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+export function mean(values: number[]): number | null {
+  return values.length ? sum(values) / values.length : null;
+}
+
+/**
+ * Sample standard deviation; 0 when there are fewer than two values
+ */
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+  const average = sum(values) / values.length;
+  return Math.sqrt(sum(values.map(value => (value - average) ** 2)) / (values.length - 1));
+}
+
+/**
+ * Population variance; 0 when there are no values
+ */
+export function variance(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const average = sum(values) / values.length;
+  return sum(values.map(value => (value - average) ** 2)) / values.length;
+}
+
+export function round(value: number | null, digits = 4): number | null {
+  if (value === null || !Number.isFinite(value)) {
+    return null;
+  }
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Group items into a map keyed by the result of `key`
+ */
+export function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const groupKey = key(item);
+    const group = groups.get(groupKey);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(groupKey, [item]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Krippendorff's alpha for interval data. Each unit holds the values assigned
+ * by different raters; units with fewer than two values are not pairable.
+ * Returns null when there is not enough variation to compute agreement.
+ */
+export function krippendorffAlphaInterval(units: number[][]): number | null {
+  const pairable = units.filter(values => values.length >= 2);
+  const allValues = pairable.flat();
+  const n = allValues.length;
+  if (n < 2) {
+    return null;
+  }
+
+  // Sum of squared differences over ordered pairs equals 2·m·Σ(v − mean)²
+  const squaredPairSum = (values: number[]) => 2 * values.length * values.length * variance(values);
+
+  const observed = sum(pairable.map(values => squaredPairSum(values) / (values.length - 1))) / n;
+  const expected = squaredPairSum(allValues) / (n * (n - 1));
+
+  if (expected === 0) {
+    return observed === 0 ? 1 : null;
+  }
+  return 1 - observed / expected;
+}
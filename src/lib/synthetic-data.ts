@@ -0,0 +1,524 @@
+import type {
+  Application,
+  ApplicationQuestionsData,
+  ApplicationResponse,
+  Criterion,
+  EvaluationCriteriaData,
+  Evaluation,
+  EventApplicationsData,
+  EventEvaluationsData,
+  EventInfo,
+  Question
+} from '../types/index.js';
+import { groupBy, mean, round } from './statistics.js';
+
+export interface SyntheticEventOptions {
+  applications: number;
+  reviewers: number;
+}
+
+export interface SyntheticEvent {
+  applications: EventApplicationsData;
+  evaluations: EventEvaluationsData;
+  criteria: EvaluationCriteriaData;
+  questions: ApplicationQuestionsData;
+}
+
+type Random = () => number;
+
+// Fixed dates keep generated payloads identical between runs
+const BASE_TIME = Date.parse('2025-03-01T12:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FIRST_NAMES = ['Ana', 'Bruno', 'Camila', 'Diego', 'Elena', 'Felipe', 'Gabriela', 'Hugo', 'Isabel', 'Javier', 'Lucía', 'Mateo', 'Natalia', 'Óscar', 'Paula', 'Rafael', 'Sofía', 'Tomás', 'Valentina', 'Ximena'];
+const LAST_NAMES = ['Álvarez', 'Benítez', 'Castro', 'Domínguez', 'Espinoza', 'Fernández', 'García', 'Herrera', 'Ibarra', 'Jiménez', 'López', 'Morales', 'Navarro', 'Ortiz', 'Pérez', 'Quintero', 'Ramírez', 'Suárez', 'Torres', 'Vargas'];
+const REVIEWER_NAMES = ['Reviewer Amaya', 'Reviewer Bastos', 'Reviewer Cortés', 'Reviewer Duarte', 'Reviewer Echeverría', 'Reviewer Fuentes', 'Reviewer Guzmán', 'Reviewer Hidalgo'];
+
+const COUNTRIES = ['Argentina', 'Brazil', 'Chile', 'Colombia', 'Mexico', 'Peru', 'Other'];
+const ROLES = ['Developer', 'Designer', 'Researcher', 'Community builder', 'Entrepreneur'];
+const EXPERIENCE = ['Less than 1 year', '1-3 years', '3-5 years', 'More than 5 years'];
+
+// Free-text answers combine a few sentences from these pools, so they vary
+// without being near-duplicates of each other
+const ANSWER_SENTENCES: Record<'motivation' | 'project_idea', Record<'en' | 'es', string[]>> = {
+  motivation: {
+    en: [
+      'I want to learn how to build decentralized applications.',
+      'I have been organizing blockchain meetups in my city for two years.',
+      'My goal is to help small businesses accept digital payments without relying on banks.',
+      'As a designer I want Web3 products to be easier for people who have never held a wallet.',
+      'I research zero-knowledge proofs and their use for digital identity.',
+      'I would like to bring what I learn back to my local developer community.',
+      'The program would give me the mentorship I cannot find where I live.',
+      'I am looking for co-founders who share my interest in open finance.',
+    ],
+    es: [
+      'Quiero aprender a construir aplicaciones descentralizadas.',
+      'Organizo encuentros sobre blockchain en mi ciudad desde hace dos años.',
+      'Mi objetivo es ayudar a pequeños comercios a aceptar pagos digitales sin depender de los bancos.',
+      'Como diseñadora quiero que los productos Web3 sean fáciles para quienes nunca tuvieron una billetera.',
+      'Investigo pruebas de conocimiento cero y su uso para la identidad digital.',
+      'Me gustaría compartir lo aprendido con la comunidad de desarrolladores de mi ciudad.',
+      'El programa me daría la mentoría que no encuentro donde vivo.',
+      'Busco cofundadores que compartan mi interés por las finanzas abiertas.',
+    ],
+  },
+  project_idea: {
+    en: [
+      'A remittance app built on stablecoins that lets families send money across borders with low fees.',
+      'An open-source toolkit for cooperatives to issue and track community currencies.',
+      'A credential wallet that lets students prove their degrees with zero-knowledge proofs.',
+      'A marketplace connecting local farmers with buyers and recording the provenance of each harvest.',
+      'The first version would be a mobile app with a simple onboarding flow.',
+      'Payments would settle on-chain through a Solidity smart contract.',
+      'We would pilot it with two organizations we already work with.',
+      'A web dashboard would show usage and impact metrics to partners.',
+    ],
+    es: [
+      'Una aplicación de remesas basada en stablecoins para enviar dinero entre países con comisiones bajas.',
+      'Un conjunto de herramientas de código abierto para que las cooperativas emitan monedas comunitarias.',
+      'Una billetera de credenciales para que los estudiantes demuestren sus títulos con pruebas de conocimiento cero.',
+      'Un mercado que conecta a productores locales con compradores y registra la procedencia de cada cosecha.',
+      'La primera versión sería una aplicación móvil con un registro sencillo.',
+      'Los pagos se liquidarían en la cadena mediante un contrato inteligente en Solidity.',
+      'Haríamos una prueba piloto con dos organizaciones con las que ya trabajamos.',
+      'Un panel web mostraría a los socios las métricas de uso e impacto.',
+    ],
+  },
+};
+
+const REVIEW_COMMENTS = [
+  'Clear motivation and a realistic plan.',
+  'The project idea needs more technical detail.',
+  'Strong community background, weaker on implementation.',
+  'Would benefit from a mentor in smart contract security.',
+  'Video was short but convincing.',
+];
+
+interface QuestionSpec {
+  key: string;
+  type: string;
+  en: string;
+  es: string;
+  required: boolean;
+  options?: string[];
+  maxOptions?: number;
+  contact?: boolean;
+}
+
+const QUESTIONS: QuestionSpec[] = [
+  { key: 'full_name', type: 'TEXT', en: 'Full name', es: 'Nombre completo', required: true, contact: true },
+  { key: 'email', type: 'EMAIL', en: 'Email address', es: 'Correo electrónico', required: true, contact: true },
+  { key: 'telegram', type: 'TEXT', en: 'Telegram handle', es: 'Usuario de Telegram', required: false, contact: true },
+  { key: 'country', type: 'SELECT', en: 'Country of residence', es: 'País de residencia', required: true, options: COUNTRIES, maxOptions: 1 },
+  { key: 'role', type: 'MULTISELECT', en: 'Which roles describe you best? (up to 2)', es: '¿Qué roles te describen mejor? (hasta 2)', required: true, options: ROLES, maxOptions: 2 },
+  { key: 'experience', type: 'SELECT', en: 'Years of experience in tech', es: 'Años de experiencia en tecnología', required: true, options: EXPERIENCE, maxOptions: 1 },
+  { key: 'motivation', type: 'TEXTAREA', en: 'Why do you want to join the program?', es: '¿Por qué quieres participar en el programa?', required: true },
+  { key: 'project_idea', type: 'TEXTAREA', en: 'Describe the project you want to build', es: 'Describe el proyecto que quieres construir', required: true },
+  { key: 'github', type: 'URL', en: 'GitHub profile', es: 'Perfil de GitHub', required: false },
+  { key: 'video_url', type: 'URL', en: 'Link to a 2-minute video pitch', es: 'Enlace a un video de presentación de 2 minutos', required: false },
+];
+
+interface CriterionSpec {
+  name: string;
+  category: keyof EvaluationCriteriaData['categorizedCriteria'];
+  weight: number;
+  max: number;
+  description: string;
+}
+
+const CRITERIA: CriterionSpec[] = [
+  { name: 'Technical skills', category: 'TECHNICAL', weight: 2, max: 5, description: 'Demonstrated ability to build software' },
+  { name: 'Code portfolio', category: 'TECHNICAL', weight: 1, max: 5, description: 'Quality of linked repositories and past work' },
+  { name: 'Project feasibility', category: 'PROJECT', weight: 2, max: 5, description: 'Can the project be built within the program?' },
+  { name: 'Project impact', category: 'PROJECT', weight: 2, max: 5, description: 'Potential benefit for the region' },
+  { name: 'Community engagement', category: 'COMMUNITY_FIT', weight: 1.5, max: 5, description: 'Involvement in local communities' },
+  { name: 'Video pitch', category: 'VIDEO', weight: 1, max: 5, description: 'Clarity and conviction of the video' },
+  { name: 'Overall impression', category: 'OVERALL', weight: 1, max: 10, description: 'Holistic assessment of the applicant' },
+];
+
+const CATEGORY_WEIGHTS: EvaluationCriteriaData['scoring']['categoryWeights'] = {
+  TECHNICAL: 0.3,
+  PROJECT: 0.3,
+  COMMUNITY_FIT: 0.2,
+  VIDEO: 0.1,
+  OVERALL: 0.1,
+};
+
+/**
+ * Seeded PRNG (FNV-1a hash of the seed feeding mulberry32), so the same
+ * event ID always generates the same data
+ */
+function createRandom(seed: string): Random {
+  let state = 0x811c9dc5;
+  for (let index = 0; index < seed.length; index++) {
+    state = Math.imul(state ^ seed.charCodeAt(index), 0x01000193);
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let value = Math.imul(state ^ (state >>> 15), 1 | state);
+    value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value;
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function roundTo(value: number | null, digits: number): number {
+  return round(value ?? 0, digits) ?? 0;
+}
+
+function pick<T>(random: Random, items: T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function timestamp(offsetDays: number): string {
+  return new Date(BASE_TIME + offsetDays * DAY_MS).toISOString();
+}
+
+function slug(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().replace(/[^a-z0-9]+/g, '.');
+}
+
+function buildEvent(eventId: string): EventInfo {
+  return {
+    id: eventId,
+    name: `Synthetic Event ${eventId}`,
+    description: 'Generated offline data for development and tests',
+    type: 'RESIDENCY',
+    startDate: timestamp(30),
+    endDate: timestamp(60),
+  };
+}
+
+function buildQuestions(eventId: string, event: EventInfo): ApplicationQuestionsData {
+  const questions: Question[] = QUESTIONS.map((spec, index) => ({
+    id: `${eventId}-q${index + 1}`,
+    eventId,
+    order: index + 1,
+    questionKey: spec.key,
+    questionText: { en: spec.en, es: spec.es },
+    questionType: spec.type,
+    required: spec.required,
+    options: spec.options,
+    createdAt: timestamp(-30),
+    updatedAt: timestamp(-30),
+    isMultipleChoice: Boolean(spec.options),
+    isTextInput: !spec.options,
+    isContactInfo: Boolean(spec.contact),
+    maxOptions: spec.maxOptions ?? 0,
+  }));
+
+  const questionTypes: Record<string, number> = {};
+  for (const question of questions) {
+    questionTypes[question.questionType] = (questionTypes[question.questionType] ?? 0) + 1;
+  }
+
+  return {
+    eventId,
+    event,
+    questions,
+    totalCount: questions.length,
+    questionTypes,
+    metadata: {
+      generatedAt: timestamp(0),
+      purpose: 'Synthetic application questions',
+      totalRequired: questions.filter(question => question.required).length,
+      totalOptional: questions.filter(question => !question.required).length,
+    },
+  };
+}
+
+function buildCriteria(eventId: string, event: EventInfo): EvaluationCriteriaData {
+  const criteria: Criterion[] = CRITERIA.map((spec, index) => ({
+    id: `${eventId}-c${index + 1}`,
+    name: spec.name,
+    description: spec.description,
+    category: spec.category,
+    weight: spec.weight,
+    scoreRange: { min: 1, max: spec.max, range: spec.max - 1 },
+    order: index + 1,
+    isActive: true,
+    createdAt: timestamp(-30),
+    updatedAt: timestamp(-30),
+    categoryDescription: `${spec.category} criteria`,
+    scoringGuidance: `1 = poor, ${spec.max} = excellent`,
+  }));
+
+  const byCategory = (category: CriterionSpec['category']) => criteria.filter(criterion => criterion.category === category);
+  return {
+    eventId,
+    event,
+    criteria,
+    categorizedCriteria: {
+      TECHNICAL: byCategory('TECHNICAL'),
+      PROJECT: byCategory('PROJECT'),
+      COMMUNITY_FIT: byCategory('COMMUNITY_FIT'),
+      VIDEO: byCategory('VIDEO'),
+      OVERALL: byCategory('OVERALL'),
+    },
+    totalCount: criteria.length,
+    scoring: {
+      totalMaxScore: CRITERIA.reduce((total, spec) => total + spec.max, 0),
+      weightedMaxScore: CRITERIA.reduce((total, spec) => total + spec.max * spec.weight, 0),
+      averageWeight: roundTo(mean(CRITERIA.map(spec => spec.weight)), 2),
+      categoryWeights: CATEGORY_WEIGHTS,
+    },
+    metadata: {
+      generatedAt: timestamp(0),
+      purpose: 'Synthetic evaluation criteria',
+      usage: 'Development and tests only',
+    },
+  };
+}
+
+function buildAnswer(random: Random, spec: QuestionSpec, language: 'en' | 'es', name: string, email: string): string {
+  switch (spec.key) {
+    case 'full_name':
+      return name;
+    case 'email':
+      return email;
+    case 'telegram':
+      return random() < 0.6 ? `@${slug(name).replace(/\./g, '_')}` : '';
+    case 'role': {
+      const first = pick(random, ROLES);
+      const second = pick(random, ROLES);
+      return JSON.stringify(first === second || random() < 0.5 ? [first] : [first, second]);
+    }
+    case 'motivation':
+    case 'project_idea': {
+      const sentences = [...ANSWER_SENTENCES[spec.key][language]];
+      return Array.from({ length: 3 }, () => sentences.splice(Math.floor(random() * sentences.length), 1)[0]).join(' ');
+    }
+    case 'github':
+      return random() < 0.7 ? `https://github.com/${slug(name).replace(/\./g, '-')}` : '';
+    case 'video_url':
+      return random() < 0.5 ? `https://video.example.com/${Math.floor(random() * 1e6)}` : '';
+    default:
+      return spec.options ? pick(random, spec.options) : '';
+  }
+}
+
+function buildApplications(random: Random, eventId: string, event: EventInfo, count: number): EventApplicationsData {
+  const applications: Application[] = [];
+
+  for (let index = 0; index < count; index++) {
+    const id = `${eventId}-app-${String(index + 1).padStart(3, '0')}`;
+    const name = `${pick(random, FIRST_NAMES)} ${pick(random, LAST_NAMES)}`;
+    const email = `${slug(name)}${index + 1}@example.com`;
+    const language = random() < 0.6 ? 'es' : 'en';
+    const isComplete = random() < 0.85;
+    const submittedDay = -20 + Math.floor(random() * 18);
+
+    const responses: ApplicationResponse[] = QUESTIONS.map((spec, order) => ({
+      questionId: `${eventId}-q${order + 1}`,
+      questionKey: spec.key,
+      questionText: spec[language],
+      questionType: spec.type,
+      required: spec.required,
+      answer: isComplete || random() < 0.5 ? buildAnswer(random, spec, language, name, email) : '',
+      order: order + 1,
+    }));
+
+    // Copy-pasted answers from an earlier applicant, for duplicate detection
+    if (index > 0 && random() < 0.1) {
+      const source = applications[Math.floor(random() * applications.length)];
+      const motivation = responses.find(response => response.questionKey === 'motivation');
+      const copied = source.responses.find(response => response.questionKey === 'motivation');
+      if (motivation && copied) {
+        motivation.answer = copied.answer;
+      }
+    }
+
+    // Answers the upstream form let through, for the application audit
+    if (isComplete && random() < 0.15) {
+      const defect = pick(random, ['blank', 'option', 'tooMany', 'retired']);
+      const response = (key: string) => responses.find(candidate => candidate.questionKey === key)!;
+      if (defect === 'blank') {
+        response(pick(random, ['project_idea', 'experience'])).answer = '';
+      } else if (defect === 'option') {
+        response('country').answer = 'Venezuela';
+      } else if (defect === 'tooMany') {
+        response('role').answer = JSON.stringify(ROLES.slice(0, 3));
+      } else {
+        responses.push({
+          questionId: `${eventId}-q-retired`,
+          questionKey: 'referral_source',
+          questionText: language === 'es' ? '¿Cómo conociste el programa?' : 'How did you hear about the program?',
+          questionType: 'TEXT',
+          required: false,
+          answer: 'A friend',
+          order: responses.length + 1,
+        });
+      }
+    }
+
+    const answered = responses.filter(response => response.answer.trim() !== '');
+    const required = responses.filter(response => response.required);
+    applications.push({
+      id,
+      userId: `${eventId}-user-${index + 1}`,
+      eventId,
+      status: isComplete ? pick(random, ['SUBMITTED', 'SUBMITTED', 'UNDER_REVIEW', 'ACCEPTED', 'REJECTED']) : 'DRAFT',
+      language,
+      isComplete,
+      submittedAt: isComplete ? timestamp(submittedDay) : undefined,
+      createdAt: timestamp(submittedDay - 3),
+      updatedAt: timestamp(submittedDay),
+      applicant: { id: `${eventId}-user-${index + 1}`, name, email },
+      event: { id: event.id, name: event.name, description: event.description, startDate: event.startDate, endDate: event.endDate },
+      responses,
+      responseCount: answered.length,
+      completionPercentage: Math.round(100 * required.filter(response => response.answer.trim() !== '').length / required.length),
+    });
+  }
+
+  return {
+    eventId,
+    applications,
+    totalCount: applications.length,
+    metadata: {
+      generatedAt: timestamp(0),
+      purpose: 'Synthetic applications',
+    },
+  };
+}
+
+function buildEvaluations(
+  random: Random,
+  eventId: string,
+  event: EventInfo,
+  applicationsData: EventApplicationsData,
+  criteriaData: EvaluationCriteriaData,
+  reviewerCount: number
+): EventEvaluationsData {
+  const reviewers = Array.from({ length: reviewerCount }, (_, index) => ({
+    id: `${eventId}-reviewer-${index + 1}`,
+    name: REVIEWER_NAMES[index % REVIEWER_NAMES.length],
+    // Some reviewers are consistently harsher or more generous than the panel
+    bias: (random() - 0.5) * 0.3,
+  }));
+  const evaluations: Evaluation[] = [];
+
+  for (const application of applicationsData.applications.filter(candidate => candidate.isComplete)) {
+    const quality = random();
+    // Uneven coverage: some applications get no or a single evaluation
+    const reviewCount = Math.min(Math.floor(random() * 4), reviewers.length);
+    // Earlier reviewers pick up more of the work
+    const assigned = reviewers
+      .map((reviewer, index) => ({ reviewer, key: random() * (1 + index) }))
+      .sort((a, b) => a.key - b.key)
+      .slice(0, reviewCount)
+      .map(({ reviewer }) => reviewer);
+
+    for (const reviewer of assigned) {
+      const completed = random() < 0.9;
+      const scores = criteriaData.criteria.map(criterion => {
+        const { min, max } = criterion.scoreRange;
+        const level = Math.min(Math.max(quality + reviewer.bias + (random() - 0.5) * 0.3, 0), 1);
+        const score = Math.round(min + level * (max - min));
+        return {
+          criteriaId: criterion.id,
+          criteriaName: criterion.name,
+          criteriaCategory: criterion.category,
+          criteriaWeight: criterion.weight,
+          scoreRange: { min, max },
+          score,
+          reasoning: `Synthetic reasoning for ${criterion.name.toLowerCase()}`,
+          normalizedScore: roundTo((score - min) / (max - min), 4),
+        };
+      });
+
+      const averageScore = roundTo(mean(scores.map(score => score.normalizedScore)), 4);
+      const recommendation = averageScore >= 0.7 ? 'ACCEPT' : averageScore >= 0.5 ? 'WAITLIST' : averageScore >= 0.35 ? 'NEEDS_MORE_INFO' : 'REJECT';
+      const comments = random() < 0.6
+        ? [{
+          id: `${application.id}-${reviewer.id}-comment`,
+          questionKey: random() < 0.5 ? 'project_idea' : undefined,
+          comment: pick(random, REVIEW_COMMENTS),
+          isPrivate: random() < 0.3,
+          createdAt: timestamp(5),
+        }]
+        : [];
+      const categoryScores: Record<string, number[]> = {};
+      for (const [category, entries] of groupBy(scores, score => score.criteriaCategory)) {
+        categoryScores[category] = entries.map(entry => entry.score);
+      }
+
+      evaluations.push({
+        id: `${application.id}-${reviewer.id}`,
+        applicationId: application.id,
+        reviewerId: reviewer.id,
+        status: completed ? 'COMPLETED' : 'IN_PROGRESS',
+        stage: 'INITIAL_REVIEW',
+        overallScore: roundTo(1 + averageScore * 9, 1),
+        overallComments: completed ? pick(random, REVIEW_COMMENTS) : undefined,
+        recommendation: completed ? recommendation : undefined,
+        confidence: 1 + Math.floor(random() * 5),
+        timeSpentMinutes: 5 + Math.floor(random() * 40),
+        completedAt: completed ? timestamp(5 + Math.floor(random() * 5)) : undefined,
+        application: {
+          id: application.id,
+          userId: application.userId,
+          status: application.status,
+          submittedAt: application.submittedAt,
+          applicant: application.applicant,
+        },
+        reviewer: { id: reviewer.id, name: reviewer.name, role: 'REVIEWER' },
+        scores,
+        comments,
+        video: { watched: random() < 0.7, quality: 1 + Math.floor(random() * 5) },
+        metrics: {
+          averageScore,
+          weightedScore: averageScore,
+          categoryScores,
+          completeness: {
+            hasOverallScore: true,
+            hasRecommendation: completed,
+            hasComments: comments.length > 0,
+            scoreCount: scores.length,
+          },
+        },
+      });
+    }
+  }
+
+  const count = (value: string) => evaluations.filter(evaluation => evaluation.recommendation === value).length;
+  return {
+    eventId,
+    event,
+    evaluations,
+    statistics: {
+      totalEvaluations: evaluations.length,
+      uniqueApplications: new Set(evaluations.map(evaluation => evaluation.applicationId)).size,
+      uniqueReviewers: new Set(evaluations.map(evaluation => evaluation.reviewerId)).size,
+      recommendations: {
+        ACCEPT: count('ACCEPT'),
+        REJECT: count('REJECT'),
+        WAITLIST: count('WAITLIST'),
+        NEEDS_MORE_INFO: count('NEEDS_MORE_INFO'),
+      },
+      averageOverallScore: roundTo(mean(evaluations.map(evaluation => evaluation.overallScore ?? 0)), 2),
+      averageConfidence: roundTo(mean(evaluations.map(evaluation => evaluation.confidence ?? 0)), 2),
+    },
+    metadata: {
+      generatedAt: timestamp(0),
+      purpose: 'Synthetic evaluations',
+      usage: 'Development and tests only',
+    },
+  };
+}
+
+/**
+ * Deterministic, realistic-looking event data following the platform payload
+ * types: bilingual questions, applications with a few incomplete and
+ * copy-pasted answers, and evaluations with uneven coverage and reviewer bias.
+ * Applicant emails use the reserved example.com domain.
+ */
+export function generateSyntheticEvent(eventId: string, options: SyntheticEventOptions): SyntheticEvent {
+  const random = createRandom(eventId);
+  const event = buildEvent(eventId);
+  const questions = buildQuestions(eventId, event);
+  const criteria = buildCriteria(eventId, event);
+  const applications = buildApplications(random, eventId, event, options.applications);
+  const evaluations = buildEvaluations(random, eventId, event, applications, criteria, options.reviewers);
+  return { applications, evaluations, criteria, questions };
+}
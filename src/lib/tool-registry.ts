@@ -0,0 +1,198 @@
+import { ZodIssueCode, type z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import {
+  ErrorCode,
+  McpError,
+  type CallToolResult,
+  type Tool,
+  type ToolAnnotations
+} from '@modelcontextprotocol/sdk/types.js';
+import { translate, type Locale, type MessageKey } from './i18n.js';
+
+type JsonObjectSchema = Tool['inputSchema'];
+
+/** Arguments of any tool: input schemas are strict objects */
+type ToolArguments = Record<string, unknown>;
+
+/**
+ * Result with content other than its JSON text, e.g. an embedded file.
+ * `structuredContent` must still match the tool's output schema.
+ */
+export class ToolResponse<Result extends object> {
+  constructor(
+    readonly structuredContent: Result,
+    readonly content: CallToolResult['content']
+  ) {}
+}
+
+export interface ToolDefinition<Args, Result extends object, Context> {
+  name: string;
+  title: string;
+  /** Plain text, or a function for descriptions translated per server locale */
+  description: string | ((locale: Locale) => string);
+  /** Strict object schema; arguments are validated against it before the handler runs */
+  input: z.ZodType<Args, z.ZodTypeDef, unknown>;
+  /** Object schema describing the handler's structured result */
+  output: z.AnyZodObject;
+  /** Only reads platform data; no upstream or server state is changed */
+  readOnly: boolean;
+  /** May overwrite or delete platform data (only meaningful when not read-only) */
+  destructive?: boolean;
+  /** Repeating a call with the same arguments has no additional effect (only meaningful when not read-only) */
+  idempotent?: boolean;
+  // Method syntax keeps `Args` bivariant, so a definition with specific
+  // arguments still fits the registry's ToolDefinition<ToolArguments, …>
+  handler(args: Args, context: Context): Promise<Result | ToolResponse<Result>>;
+}
+
+function toJsonSchema(schema: z.ZodTypeAny): JsonObjectSchema {
+  // Strict objects reject unknown keys; every other object allows them, as
+  // passthrough results may carry new upstream fields
+  const { $schema: _, ...jsonSchema } = zodToJsonSchema(schema, {
+    $refStrategy: 'none',
+    removeAdditionalStrategy: 'strict'
+  }) as JsonObjectSchema & { $schema?: string };
+  return jsonSchema;
+}
+
+/**
+ * Validation messages from the catalog; custom checks name their message
+ * with `params.messageKey`. Rarer issues keep zod's English message.
+ */
+function errorMapFor(locale: Locale): z.ZodErrorMap {
+  return (issue, context) => {
+    switch (issue.code) {
+      case ZodIssueCode.invalid_type:
+        return {
+          message: issue.received === 'undefined'
+            ? translate(locale, 'validation.required')
+            : translate(locale, 'validation.invalidType', { expected: issue.expected, received: issue.received })
+        };
+      case ZodIssueCode.unrecognized_keys:
+        return { message: translate(locale, 'validation.unrecognizedKeys', { keys: issue.keys.map(key => `'${key}'`).join(', ') }) };
+      case ZodIssueCode.invalid_enum_value:
+        return {
+          message: translate(locale, 'validation.invalidEnum', {
+            options: issue.options.map(option => `'${String(option)}'`).join(' | '),
+            received: String(issue.received)
+          })
+        };
+      case ZodIssueCode.too_small:
+        if (issue.type === 'string' && issue.minimum === 1) {
+          return { message: translate(locale, 'validation.empty') };
+        }
+        if (issue.inclusive && issue.type !== 'date' && issue.type !== 'set' && issue.type !== 'bigint') {
+          const key = ({ number: 'validation.numberMin', string: 'validation.stringMin', array: 'validation.arrayMin' } as const)[issue.type];
+          return { message: translate(locale, key, { minimum: String(issue.minimum) }) };
+        }
+        break;
+      case ZodIssueCode.too_big:
+        if (issue.type === 'number' && issue.inclusive) {
+          return { message: translate(locale, 'validation.numberMax', { maximum: String(issue.maximum) }) };
+        }
+        break;
+      case ZodIssueCode.custom:
+        if (issue.params?.messageKey) {
+          return { message: translate(locale, issue.params.messageKey as MessageKey) };
+        }
+        break;
+    }
+    return { message: context.defaultError };
+  };
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+    .join('; ');
+}
+
+function getAnnotations(definition: Pick<ToolDefinition<unknown, object, unknown>, 'title' | 'readOnly' | 'destructive' | 'idempotent'>): ToolAnnotations {
+  // Every tool works against the FTC Platform only
+  const annotations: ToolAnnotations = { title: definition.title, readOnlyHint: definition.readOnly, openWorldHint: false };
+  if (!definition.readOnly) {
+    annotations.destructiveHint = definition.destructive ?? false;
+    annotations.idempotentHint = definition.idempotent ?? false;
+  }
+  return annotations;
+}
+
+/**
+ * Tools offered by the server, keyed by name. Definitions are the single
+ * source for the listed input/output schemas and annotations, argument
+ * validation and result formatting.
+ */
+export class ToolRegistry<Context> {
+  private definitions = new Map<string, ToolDefinition<ToolArguments, object, Context>>();
+
+  constructor(definitions: Array<ToolDefinition<ToolArguments, object, Context>>) {
+    for (const definition of definitions) {
+      if (this.definitions.has(definition.name)) {
+        throw new Error(`Duplicate tool definition: ${definition.name}`);
+      }
+      this.definitions.set(definition.name, definition);
+    }
+  }
+
+  has(name: string): boolean {
+    return this.definitions.has(name);
+  }
+
+  get(name: string): ToolDefinition<ToolArguments, object, Context> | undefined {
+    return this.definitions.get(name);
+  }
+
+  /**
+   * Tool listings with descriptions in the given locale
+   */
+  list(locale: Locale, filter: (name: string) => boolean = () => true): Tool[] {
+    return [...this.definitions.values()]
+      .filter(definition => filter(definition.name))
+      .map(definition => {
+        const inputSchema = toJsonSchema(definition.input);
+        const localeProperty = inputSchema.properties?.locale as { description?: string } | undefined;
+        if (localeProperty) {
+          localeProperty.description = translate(locale, 'args.locale.description');
+        }
+
+        return {
+          name: definition.name,
+          title: definition.title,
+          description: typeof definition.description === 'function' ? definition.description(locale) : definition.description,
+          inputSchema,
+          outputSchema: toJsonSchema(definition.output),
+          annotations: getAnnotations(definition)
+        };
+      });
+  }
+
+  /**
+   * Validate call arguments against the tool's input schema, rejecting
+   * invalid ones as a JSON-RPC invalid params error naming each bad argument
+   */
+  parseArguments<Args>(definition: ToolDefinition<Args, object, Context>, args: unknown, locale: Locale): Args {
+    const parsed = definition.input.safeParse(args ?? {}, { errorMap: errorMapFor(locale) });
+    if (!parsed.success) {
+      throw new McpError(ErrorCode.InvalidParams, translate(locale, 'errors.invalidArguments', {
+        tool: definition.name,
+        issues: formatIssues(parsed.error)
+      }));
+    }
+    return parsed.data;
+  }
+
+  /**
+   * Run a tool with validated arguments, returning its result as structured
+   * content plus the equivalent JSON text for clients without output schemas
+   */
+  async call<Args>(definition: ToolDefinition<Args, object, Context>, args: Args, context: Context): Promise<CallToolResult> {
+    const result = await definition.handler(args, context);
+    if (result instanceof ToolResponse) {
+      return { content: result.content, structuredContent: result.structuredContent as Record<string, unknown> };
+    }
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      structuredContent: result as Record<string, unknown>
+    };
+  }
+}
@@ -0,0 +1,609 @@
+import { z } from 'zod';
+import type { PlatformReader, VercelApiClient } from './api-client.js';
+import { MAX_PAGE_SIZE, projectApplication } from './application-query.js';
+import { computeReviewerCalibration } from './calibration.js';
+import { rankApplications } from './ranking.js';
+import { findContestedApplications } from './disagreement.js';
+import { REPORT_COLUMNS, REPORT_FORMATS, buildEventReport, type ReportFormat } from './report.js';
+import type { SearchIndexRegistry } from './search-index.js';
+import { detectDuplicateResponses } from './duplicates.js';
+import { planReviewAssignments } from './review-assignments.js';
+import { APPLICATION_ISSUE_TYPES, auditApplications, type ApplicationIssueType } from './application-audit.js';
+import { RECOMMENDATIONS, buildAiEvaluationDraft, getAiReviewer, validateAiEvaluation } from './ai-evaluation.js';
+import { LOCALES, translate, type Locale } from './i18n.js';
+import { localizeApplications, localizeQuestions, type LocalizedApplicationsData } from './localization.js';
+import { evaluationDraftResultSchema, testConnectionSchema } from './schemas.js';
+import { ToolRegistry, ToolResponse, type ToolDefinition } from './tool-registry.js';
+import type { EventApplicationsData, Recommendation } from '../types/index.js';
+
+export interface ToolContext {
+  /** Platform reads, redacted according to the caller's policy */
+  reader: PlatformReader;
+  /** Unredacted client for writes, validation against real IDs and cache control */
+  apiClient: VercelApiClient;
+  searchIndexes: SearchIndexRegistry;
+  /** Language for messages: the call's `locale` argument or the server default */
+  locale: Locale;
+}
+
+function tool<Args, Result extends object>(definition: ToolDefinition<Args, Result, ToolContext>): ToolDefinition<Args, Result, ToolContext> {
+  return definition;
+}
+
+/**
+ * ID the AI reviewer's evaluations appear under in the reader's data, which
+ * is a pseudonym when the caller's redaction policy hides reviewers
+ */
+function aiReviewerIdFor(reader: PlatformReader, eventId: string): string {
+  return reader.reviewerIdFor(eventId, getAiReviewer().id);
+}
+
+const eventId = (description: string) => z.string().min(1).describe(description);
+const questionKeys = (description: string) => z.array(z.string()).describe(description);
+const localeArg = z.enum(LOCALES as [Locale, ...Locale[]]);
+const isoDate = (description: string) => z.string()
+  .refine(value => !Number.isNaN(Date.parse(value)), { params: { messageKey: 'validation.isoDate' } })
+  .describe(description);
+
+const includeDrafts = z.boolean()
+  .describe('Also use evaluations that are not completed, such as in-progress reviews (default false). AI reviewer drafts are never used').optional();
+
+const metadata = z.object({
+  generatedAt: z.string(),
+  method: z.string(),
+}).passthrough();
+
+// Output schemas describe the envelope of each result; nested objects are
+// passthrough so redaction, localization and new upstream fields still match
+
+const withId = z.object({ id: z.string() }).passthrough();
+
+const eventApplicationsOutput = z.object({
+  eventId: z.string(),
+  applications: z.array(withId),
+  totalCount: z.number(),
+  nextCursor: z.string().nullish(),
+  locale: localeArg.optional(),
+  differentLanguageResponseCount: z.number().optional(),
+}).passthrough();
+
+const eventEvaluationsOutput = z.object({
+  eventId: z.string(),
+  evaluations: z.array(z.object({
+    id: z.string(),
+    applicationId: z.string(),
+    reviewerId: z.string(),
+  }).passthrough()),
+  statistics: z.object({}).passthrough(),
+}).passthrough();
+
+const evaluationCriteriaOutput = z.object({
+  eventId: z.string(),
+  criteria: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    category: z.string(),
+    weight: z.number(),
+  }).passthrough()),
+  totalCount: z.number(),
+}).passthrough();
+
+const applicationQuestionsOutput = z.object({
+  eventId: z.string(),
+  questions: z.array(z.object({
+    id: z.string(),
+    questionKey: z.string(),
+    questionText: z.union([z.string(), z.object({}).passthrough()]),
+  }).passthrough()),
+  totalCount: z.number(),
+  locale: localeArg.optional(),
+}).passthrough();
+
+export const toolRegistry = new ToolRegistry<ToolContext>([
+  tool({
+    name: 'test_connection',
+    title: 'Test connection',
+    description: locale => translate(locale, 'tools.test_connection.description'),
+    input: z.object({}).strict(),
+    output: testConnectionSchema.extend({
+      mcpServer: z.string(),
+      version: z.string(),
+      apiClient: z.object({
+        configured: z.boolean(),
+        baseUrl: z.string(),
+        hasApiKey: z.boolean(),
+        validationMode: z.string(),
+        upstreamMode: z.string(),
+        circuitBreaker: z.object({}).passthrough(),
+      }).passthrough(),
+    }),
+    readOnly: true,
+    handler: async (_args, { reader, apiClient }) => ({
+      ...await reader.testConnection(),
+      mcpServer: 'ftc-platform-mcp',
+      version: '1.0.0',
+      apiClient: apiClient.getStatus(),
+    }),
+  }),
+
+  tool({
+    name: 'get_event_applications',
+    title: 'Get event applications',
+    description: locale => translate(locale, 'tools.get_event_applications.description'),
+    input: z.object({
+      eventId: eventId('The unique ID of the event to fetch applications for'),
+      locale: localeArg.optional(),
+      status: z.string().describe('Only return applications with this status').optional(),
+      isComplete: z.boolean().describe('Only return complete (true) or incomplete (false) applications').optional(),
+      language: z.string().describe("Only return applications in this language (e.g. 'en', 'es')").optional(),
+      submittedAfter: isoDate('Only return applications submitted at or after this ISO 8601 date').optional(),
+      submittedBefore: isoDate('Only return applications submitted at or before this ISO 8601 date').optional(),
+      minCompletionPercentage: z.number().min(0).max(100)
+        .describe('Only return applications with at least this completion percentage (0-100)').optional(),
+      questionKeys: questionKeys('Only include responses to these question keys').optional(),
+      fields: z.array(z.string())
+        .describe("Only include these top-level application fields (e.g. 'status', 'applicant', 'responses'). `id` is always included.").optional(),
+      limit: z.number().int().min(1).max(MAX_PAGE_SIZE)
+        .describe(`Maximum number of applications per page (1-${MAX_PAGE_SIZE})`).optional(),
+      cursor: z.string().describe('Cursor returned as `nextCursor` by a previous call').optional(),
+    }).strict(),
+    output: eventApplicationsOutput,
+    readOnly: true,
+    handler: async ({ eventId, fields, locale, ...query }, { reader }) => {
+      let result: EventApplicationsData | LocalizedApplicationsData = await reader.getEventApplications(eventId, query);
+      if (locale) {
+        const questions = await reader.getApplicationQuestions(eventId);
+        result = localizeApplications(result, questions, locale);
+      }
+
+      const applications = fields?.length
+        ? result.applications.map(application => projectApplication(application, fields))
+        : result.applications;
+      return { ...result, applications };
+    },
+  }),
+
+  tool({
+    name: 'get_event_evaluations',
+    title: 'Get event evaluations',
+    description: locale => translate(locale, 'tools.get_event_evaluations.description'),
+    input: z.object({
+      eventId: eventId('The unique ID of the event to fetch evaluations for'),
+    }).strict(),
+    output: eventEvaluationsOutput,
+    readOnly: true,
+    handler: async ({ eventId }, { reader }) => reader.getEventEvaluations(eventId),
+  }),
+
+  tool({
+    name: 'get_evaluation_criteria',
+    title: 'Get evaluation criteria',
+    description: locale => translate(locale, 'tools.get_evaluation_criteria.description'),
+    input: z.object({
+      eventId: eventId('The unique ID of the event to get evaluation criteria for (provides context)'),
+    }).strict(),
+    output: evaluationCriteriaOutput,
+    readOnly: true,
+    handler: async ({ eventId }, { reader }) => reader.getEvaluationCriteria(eventId),
+  }),
+
+  tool({
+    name: 'get_application_questions',
+    title: 'Get application questions',
+    description: locale => translate(locale, 'tools.get_application_questions.description'),
+    input: z.object({
+      eventId: eventId('The unique ID of the event to fetch application questions for'),
+      locale: localeArg.optional(),
+    }).strict(),
+    output: applicationQuestionsOutput,
+    readOnly: true,
+    handler: async ({ eventId, locale }, { reader }) => {
+      const questions = await reader.getApplicationQuestions(eventId);
+      return locale ? localizeQuestions(questions, locale) : questions;
+    },
+  }),
+
+  tool({
+    name: 'get_reviewer_calibration',
+    title: 'Get reviewer calibration',
+    description: locale => translate(locale, 'tools.get_reviewer_calibration.description'),
+    input: z.object({
+      eventId: eventId('The unique ID of the event to analyze reviewer calibration for'),
+      includeDrafts,
+    }).strict(),
+    output: z.object({
+      eventId: z.string(),
+      panel: z.object({
+        reviewerCount: z.number(),
+        evaluationCount: z.number(),
+        meanNormalizedScore: z.number().nullable(),
+        standardDeviation: z.number().nullable(),
+      }).passthrough(),
+      reviewers: z.array(z.object({
+        reviewerId: z.string(),
+        evaluationCount: z.number(),
+        bias: z.number().nullable(),
+        zOffset: z.number().nullable(),
+        recommendationDisagreementRate: z.number().nullable(),
+      }).passthrough()),
+      criteria: z.array(z.object({
+        criteriaId: z.string(),
+        criteriaName: z.string(),
+        krippendorffAlpha: z.number().nullable(),
+      }).passthrough()),
+      applications: z.array(z.object({
+        applicationId: z.string(),
+        rawScore: z.number().nullable(),
+        calibratedScore: z.number().nullable(),
+      }).passthrough()),
+      metadata,
+    }).passthrough(),
+    readOnly: true,
+    handler: async ({ eventId, ...options }, { reader }) =>
+      computeReviewerCalibration(await reader.getEventEvaluations(eventId), { ...options, excludeReviewerIds: [aiReviewerIdFor(reader, eventId)] }),
+  }),
+
+  tool({
+    name: 'rank_applications',
+    title: 'Rank applications',
+    description: locale => translate(locale, 'tools.rank_applications.description'),
+    input: z.object({
+      eventId: eventId('The unique ID of the event to rank applications for'),
+      confidenceWeighted: z.boolean().describe("Weight each evaluation by the reviewer's confidence (default false)").optional(),
+      minEvaluations: z.number().int().min(1)
+        .describe('Minimum number of evaluations an application needs to be ranked (default 1)').optional(),
+      limit: z.number().int().min(1).describe('Only return the top N applications').optional(),
+      includeDrafts,
+    }).strict(),
+    output: z.object({
+      eventId: z.string(),
+      ranking: z.array(z.object({
+        rank: z.number(),
+        applicationId: z.string(),
+        weightedScore: z.number(),
+        categoryBreakdown: z.record(z.number()),
+        evaluationCount: z.number(),
+        meanConfidence: z.number().nullable(),
+      }).passthrough()),
+      belowThreshold: z.array(z.object({
+        applicationId: z.string(),
+        evaluationCount: z.number(),
+      }).passthrough()),
+      totalApplications: z.number(),
+      options: z.object({}).passthrough(),
+      metadata,
+    }).passthrough(),
+    readOnly: true,
+    handler: async ({ eventId, ...options }, { reader }) => {
+      const [evaluations, criteria] = await Promise.all([
+        reader.getEventEvaluations(eventId),
+        reader.getEvaluationCriteria(eventId),
+      ]);
+      return rankApplications(evaluations, criteria, { ...options, excludeReviewerIds: [aiReviewerIdFor(reader, eventId)] });
+    },
+  }),
+
+  tool({
+    name: 'find_contested_applications',
+    title: 'Find contested applications',
+    description: locale => translate(locale, 'tools.find_contested_applications.description'),
+    input: z.object({
+      eventId: eventId('The unique ID of the event to check for contested applications'),
+      scoreSpreadThreshold: z.number().min(0).max(1)
+        .describe('Standard deviation of normalized (0-1) scores on a criterion at which it counts as contested (default 0.2)').optional(),
+      lowConfidenceThreshold: z.number().min(0)
+        .describe('Reviewer confidence at or below which an evaluation counts as low confidence (default 2)').optional(),
+      limit: z.number().int().min(1).describe('Only return the N most contested applications').optional(),
+      includeDrafts,
+    }).strict(),
+    output: z.object({
+      eventId: z.string(),
+      contested: z.array(z.object({
+        applicationId: z.string(),
+        disagreementScore: z.number(),
+        evaluationCount: z.number(),
+        reasons: z.array(z.string()),
+        recommendations: z.record(z.number()),
+      }).passthrough()),
+      totalContested: z.number(),
+      applicationsReviewed: z.number(),
+      thresholds: z.object({
+        scoreSpreadThreshold: z.number(),
+        lowConfidenceThreshold: z.number(),
+      }).passthrough(),
+      metadata,
+    }).passthrough(),
+    readOnly: true,
+    handler: async ({ eventId, ...options }, { reader }) =>
+      findContestedApplications(await reader.getEventEvaluations(eventId), { ...options, excludeReviewerIds: [aiReviewerIdFor(reader, eventId)] }),
+  }),
+
+  tool({
+    name: 'export_event_report',
+    title: 'Export event report',
+    description: locale => translate(locale, 'tools.export_event_report.description'),
+    input: z.object({
+      eventId: eventId('The unique ID of the event to export'),
+      format: z.enum(REPORT_FORMATS as [ReportFormat, ...ReportFormat[]]).describe('Output format (default csv)').optional(),
+      columns: z.array(z.enum(REPORT_COLUMNS))
+        .describe("Columns to include, in order (default all). 'criteriaScores' expands to one column per active criterion.").optional(),
+      questionKeys: questionKeys('Question keys whose answers are added as columns (default none)').optional(),
+    }).strict(),
+    output: z.object({
+      eventId: z.string(),
+      uri: z.string(),
+      filename: z.string(),
+      mimeType: z.string(),
+      bytes: z.number(),
+    }),
+    readOnly: true,
+    handler: async ({ eventId, format = 'csv', columns, questionKeys }, { reader }) => {
+      const report = await buildEventReport(reader, eventId, { format, columns, questionKeys });
+      const uri = `ftc://events/${eventId}/reports/${report.filename}`;
+      return new ToolResponse(
+        { eventId, uri, filename: report.filename, mimeType: report.mimeType, bytes: report.body.length },
+        [{
+          type: 'resource',
+          resource: report.mimeType.startsWith('text/')
+            ? { uri, mimeType: report.mimeType, text: report.body.toString('utf8') }
+            : { uri, mimeType: report.mimeType, blob: report.body.toString('base64') },
+        }]
+      );
+    },
+  }),
+
+  tool({
+    name: 'search_applications',
+    title: 'Search applications',
+    description: locale => translate(locale, 'tools.search_applications.description'),
+    input: z.object({
+      eventId: eventId('The unique ID of the event to search applications in'),
+      query: z.string().trim().min(1)
+        .describe("Search terms; applications matching any term are returned, ranked by relevance (e.g. 'solidity zero-knowledge')"),
+      questionKeys: questionKeys('Only search answers to these question keys (default all)').optional(),
+      limit: z.number().int().min(1).describe('Maximum number of applications to return (default 20)').optional(),
+    }).strict(),
+    output: z.object({
+      eventId: z.string(),
+      query: z.string(),
+      terms: z.array(z.string()),
+      matches: z.array(z.object({
+        applicationId: z.string(),
+        score: z.number(),
+        matchedTerms: z.array(z.string()),
+        snippets: z.array(z.object({ questionKey: z.string(), snippet: z.string() }).passthrough()),
+      }).passthrough()),
+      totalMatches: z.number(),
+      index: z.object({ documents: z.number(), rebuilt: z.boolean() }),
+    }).passthrough(),
+    readOnly: true,
+    handler: async ({ eventId, query, questionKeys, limit = 20 }, { reader, searchIndexes }) => {
+      const applications = await reader.getEventApplications(eventId);
+      const { index, rebuilt } = searchIndexes.getIndex(eventId, applications);
+      return {
+        eventId,
+        ...index.search(query, { questionKeys, limit }),
+        index: { documents: index.size, rebuilt },
+      };
+    },
+  }),
+
+  tool({
+    name: 'detect_duplicate_responses',
+    title: 'Detect duplicate responses',
+    description: locale => translate(locale, 'tools.detect_duplicate_responses.description'),
+    input: z.object({
+      eventId: eventId('The unique ID of the event to check for duplicate responses'),
+      questionKeys: questionKeys('Only compare answers to these question keys (default all)').optional(),
+      threshold: z.number().min(0).max(1)
+        .describe('Estimated Jaccard similarity (0-1) at which two answers count as near-duplicates (default 0.8)').optional(),
+      minAnswerLength: z.number().int().min(0)
+        .describe('Ignore answers shorter than this many characters (default 50)').optional(),
+    }).strict(),
+    output: z.object({
+      eventId: z.string(),
+      clusters: z.array(z.object({
+        applicationIds: z.array(z.string()),
+        maxSimilarity: z.number(),
+        questions: z.array(z.object({}).passthrough()),
+        identitySignals: z.array(z.object({}).passthrough()),
+      }).passthrough()),
+      applicationsCompared: z.number(),
+      options: z.object({}).passthrough(),
+      metadata,
+    }).passthrough(),
+    readOnly: true,
+    // Masked emails and names (e.g. j***@gmail.com) would match each other, so real
+    // identities are compared; the report only holds application IDs and question keys
+    handler: async ({ eventId, ...options }, { apiClient }) => detectDuplicateResponses(await apiClient.getEventApplications(eventId), options),
+  }),
+
+  tool({
+    name: 'audit_applications',
+    title: 'Audit applications',
+    description: locale => translate(locale, 'tools.audit_applications.description'),
+    input: z.object({
+      eventId: eventId('The unique ID of the event to audit applications for'),
+      onlyComplete: z.boolean().describe('Only audit applications marked complete (default false)').optional(),
+      issueTypes: z.array(z.enum(APPLICATION_ISSUE_TYPES as [ApplicationIssueType, ...ApplicationIssueType[]]))
+        .describe('Only report these issue types (default all)').optional(),
+      limit: z.number().int().min(1).describe('Maximum number of issues listed per issue type; counts cover all issues').optional(),
+    }).strict(),
+    output: z.object({
+      eventId: z.string(),
+      groups: z.array(z.object({
+        issueType: z.string(),
+        count: z.number(),
+        applicationCount: z.number(),
+        issues: z.array(z.object({
+          applicationId: z.string(),
+          questionKey: z.string(),
+          detail: z.string(),
+        }).passthrough()),
+      }).passthrough()),
+      applications: z.array(z.object({
+        applicationId: z.string(),
+        issueCount: z.number(),
+        issueTypes: z.array(z.string()),
+      }).passthrough()),
+      summary: z.object({
+        applicationsAudited: z.number(),
+        applicationsWithIssues: z.number(),
+        completeWithMissingRequired: z.number(),
+        totalIssues: z.number(),
+      }).passthrough(),
+      options: z.object({}).passthrough(),
+      metadata,
+    }).passthrough(),
+    readOnly: true,
+    handler: async ({ eventId, ...options }, { apiClient }) => {
+      // Redaction drops contact answers, which would read as empty; the audit
+      // only returns IDs, question keys and non-contact option values
+      const [applications, questions] = await Promise.all([
+        apiClient.getEventApplications(eventId),
+        apiClient.getApplicationQuestions(eventId),
+      ]);
+      return auditApplications(applications, questions, options);
+    },
+  }),
+
+  tool({
+    name: 'plan_review_assignments',
+    title: 'Plan review assignments',
+    description: locale => translate(locale, 'tools.plan_review_assignments.description'),
+    input: z.object({
+      eventId: eventId('The unique ID of the event to plan review assignments for'),
+      targetEvaluations: z.number().int().min(1)
+        .describe('Number of evaluations each application should reach, counting existing evaluations of any status (default 3)').optional(),
+      reviewerIds: z.array(z.string())
+        .describe('Reviewers who may be assigned (default every reviewer with an evaluation in the event)').optional(),
+      conflicts: z.array(z.object({
+        reviewerId: z.string().describe('Reviewer ID as returned by get_event_evaluations'),
+        applicationId: z.string().describe('Application the reviewer must not evaluate'),
+      }).strict()).describe('Conflicts of interest; these pairs are never suggested').optional(),
+      maxLoad: z.number().int().min(1)
+        .describe('Maximum evaluations per reviewer, existing plus suggested (default no limit)').optional(),
+      includeIncomplete: z.boolean().describe('Also plan reviews for applications not marked complete (default false)').optional(),
+    }).strict(),
+    output: z.object({
+      eventId: z.string(),
+      targetEvaluations: z.number(),
+      coverage: z.object({
+        applications: z.array(z.object({
+          applicationId: z.string(),
+          evaluationCount: z.number(),
+          suggestedCount: z.number(),
+          shortfall: z.number(),
+        }).passthrough()),
+        distribution: z.record(z.number()),
+        belowTarget: z.number(),
+        belowTargetAfterPlan: z.number(),
+      }).passthrough(),
+      reviewers: z.array(z.object({
+        reviewerId: z.string(),
+        evaluationCount: z.number(),
+        suggestedCount: z.number(),
+        projectedLoad: z.number(),
+      }).passthrough()),
+      load: z.object({}).passthrough(),
+      suggestions: z.array(z.object({
+        applicationId: z.string(),
+        reviewerId: z.string(),
+      }).passthrough()),
+      unfilled: z.array(z.object({
+        applicationId: z.string(),
+        missing: z.number(),
+        reason: z.string(),
+      }).passthrough()),
+      options: z.object({}).passthrough(),
+      metadata,
+    }).passthrough(),
+    readOnly: true,
+    handler: async ({ eventId, ...options }, { reader }) => {
+      const [applications, evaluations] = await Promise.all([
+        reader.getEventApplications(eventId),
+        reader.getEventEvaluations(eventId),
+      ]);
+      // AI drafts are not human coverage, and the AI reviewer takes no assignments
+      return planReviewAssignments(applications, evaluations, { ...options, excludeReviewerIds: [aiReviewerIdFor(reader, eventId)] });
+    },
+  }),
+
+  tool({
+    name: 'submit_ai_evaluation',
+    title: 'Submit AI evaluation draft',
+    description: locale => translate(locale, 'tools.submit_ai_evaluation.description'),
+    input: z.object({
+      eventId: eventId('The unique ID of the event the application belongs to'),
+      applicationId: z.string().min(1).describe('The unique ID of the application being evaluated'),
+      scores: z.array(z.object({
+        criteriaId: z.string().describe('The criterion ID from get_evaluation_criteria'),
+        score: z.number().describe("Score within the criterion's scoreRange"),
+        reasoning: z.string().describe('Why this score was given, citing the application'),
+      }).strict()).describe('One score per active evaluation criterion'),
+      overallScore: z.number().describe('Optional overall score').optional(),
+      overallComments: z.string().describe('Optional overall comments').optional(),
+      recommendation: z.enum(RECOMMENDATIONS as [Recommendation, ...Recommendation[]]).describe('Optional recommendation').optional(),
+      confidence: z.number().min(1).max(5).describe('Optional confidence from 1 to 5').optional(),
+      stage: z.string().describe('Optional evaluation stage').optional(),
+      dryRun: z.boolean().describe('Validate and return the payload without submitting it (default false)').optional(),
+    }).strict(),
+    output: z.object({
+      success: z.boolean(),
+      dryRun: z.boolean(),
+      payload: z.object({
+        eventId: z.string(),
+        applicationId: z.string(),
+        status: z.string(),
+      }).passthrough(),
+      result: evaluationDraftResultSchema.nullable(),
+    }),
+    readOnly: false,
+    // Replaces the AI reviewer's existing draft for the application, but never a completed evaluation
+    destructive: false,
+    idempotent: true,
+    handler: async ({ eventId, dryRun = false, ...input }, { apiClient, locale }) => {
+      // Validation checks real reviewer IDs, so it reads unredacted data. Evaluations
+      // bypass the cache, as a stale copy could miss a completed evaluation
+      const [{ criteria }, { applications }, { evaluations }] = await Promise.all([
+        apiClient.getEvaluationCriteria(eventId),
+        apiClient.getEventApplications(eventId),
+        apiClient.getEventEvaluations(eventId, { fresh: true }),
+      ]);
+
+      const reviewer = getAiReviewer();
+      const errors = validateAiEvaluation(input, criteria, applications, evaluations, reviewer, locale);
+      if (errors.length > 0) {
+        throw new Error(translate(locale, 'errors.invalidAiEvaluation', { errors: errors.join('\n- ') }));
+      }
+
+      const draft = buildAiEvaluationDraft(eventId, input, reviewer);
+      const result = dryRun ? null : await apiClient.submitEvaluationDraft(draft);
+      return { success: true, dryRun, payload: draft, result };
+    },
+  }),
+
+  tool({
+    name: 'invalidate_cache',
+    title: 'Invalidate cache',
+    description: locale => translate(locale, 'tools.invalidate_cache.description'),
+    input: z.object({
+      eventId: eventId('The unique ID of the event to clear cached data for. Omit to clear the whole cache.').optional(),
+    }).strict(),
+    output: z.object({
+      success: z.boolean(),
+      eventId: z.string().nullable(),
+      removedEntries: z.number(),
+      cache: z.object({}).passthrough(),
+    }),
+    readOnly: false,
+    destructive: false,
+    idempotent: true,
+    handler: async ({ eventId }, { apiClient }) => ({
+      success: true,
+      eventId: eventId ?? null,
+      removedEntries: apiClient.invalidateCache(eventId),
+      cache: apiClient.getCacheStats(),
+    }),
+  }),
+]);
@@ -4,20 +4,93 @@ import { config } from 'dotenv';
 import express from 'express';
 import cors from 'cors';
 import rateLimit from 'express-rate-limit';
-import { randomUUID } from 'node:crypto';
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ErrorCode,
+  McpError,
   type CallToolRequest,
+  type CallToolResult,
+  type ServerNotification,
+  type ServerRequest,
   isInitializeRequest,
 } from "@modelcontextprotocol/sdk/types.js";
-import { VercelApiClient } from './lib/api-client.js';
+import { VercelApiClient, type PlatformReader } from './lib/api-client.js';
+import { getPrompt, getPromptTools, listPrompts } from './lib/prompts.js';
+import { UpstreamValidationError } from './lib/schemas.js';
+import { getListedEventIds, getResourceScope, getResourceTemplates, listResources, readResource } from './lib/resources.js';
+import {
+  ClientTokenRegistry,
+  authorizeDataAccess,
+  authorizeToolCall,
+  canAccessEvent,
+  canReadData,
+  canUseTool,
+  getToolCallDenial,
+  type ClientIdentity
+} from './lib/client-tokens.js';
+import { OAuthTokenVerifier, getOAuthConfig, looksLikeJwt } from './lib/oauth.js';
+import { SessionRegistry } from './lib/session-registry.js';
+import { metricsRegistry, observeRateLimitRejection, observeToolCall, registerActiveSessionsGauge } from './lib/metrics.js';
+import { AuditLog, getAuditLogConfig, trackUpstreamCalls, type AuditQuery, type UpstreamCall } from './lib/audit-log.js';
+import { buildEventReport, parseReportOptions } from './lib/report.js';
+import { SearchIndexRegistry } from './lib/search-index.js';
+import { toolRegistry } from './lib/tools.js';
+import { getFixtureConfig } from './lib/fixtures.js';
+import { LocalizedError, getDefaultLocale, isLocale, parseLocale, translate } from './lib/i18n.js';
+import {
+  Pseudonymizer,
+  RedactingReader,
+  isOpenPolicy,
+  loadRedactionConfig,
+  resolveRedactionPolicy,
+  type RedactionConfig
+} from './lib/redaction.js';
 
 // Load environment variables
 config();
 
+type ToolCallExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Error message of a failed tool call, from the JSON body tools return on failure
+ */
+function getToolErrorMessage(result: CallToolResult): string {
+  const [first] = result.content;
+  if (first?.type === 'text') {
+    try {
+      return (JSON.parse(first.text) as { error?: string }).error ?? first.text;
+    } catch {
+      return first.text;
+    }
+  }
+  return 'Tool returned an error';
+}
+
+async function sendMetrics(res: express.Response): Promise<void> {
+  res.setHeader('Content-Type', metricsRegistry.contentType);
+  res.send(await metricsRegistry.metrics());
+}
+
+/**
+ * Constant-time check of an `Authorization: Bearer` header against a configured
+ * token; both sides are hashed first so their lengths do not leak either
+ */
+function bearerTokenMatches(authHeader: string | undefined, expected: string): boolean {
+  const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : '';
+  return timingSafeEqual(createHash('sha256').update(token).digest(), createHash('sha256').update(expected).digest());
+}
+
 /**
  * FTC Platform MCP Server
  * 
@@ -31,10 +104,17 @@ config();
 class FtcMcpServer {
   private app: express.Application;
   private apiClient: VercelApiClient;
-  private transports: Map<string, StreamableHTTPServerTransport>;
+  private searchIndexes: SearchIndexRegistry;
+  private redactionConfig: RedactionConfig;
+  private pseudonymizer: Pseudonymizer;
+  private clientTokens?: ClientTokenRegistry;
+  private oauth?: OAuthTokenVerifier;
+  private sessions: SessionRegistry;
+  private auditLog?: AuditLog;
   private port: number;
+  private metricsPort?: number;
 
-  constructor() {
+  constructor(private mode: TransportMode = 'http') {
     // Initialize Express app
     this.app = express();
     this.app.use(express.json());
@@ -60,22 +140,54 @@ class FtcMcpServer {
       },
       standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
       legacyHeaders: false, // Disable the `X-RateLimit-*` headers
+      handler: (req, res, _next, options) => {
+        observeRateLimitRejection(String(req.route?.path ?? req.path));
+        res.status(options.statusCode).send(options.message);
+      },
     });
 
     // Initialize API client for Vercel endpoints
     this.apiClient = new VercelApiClient();
+
+    // Search indexes are shared across sessions and rebuilt when application data changes
+    this.searchIndexes = new SearchIndexRegistry();
+
+    // Per-client redaction of applicant and reviewer data
+    this.redactionConfig = loadRedactionConfig();
+    this.pseudonymizer = new Pseudonymizer();
     
-    // Store transports by session ID
-    this.transports = new Map();
+    // Scoped client tokens, replacing the shared MCP_CLIENT_TOKEN when configured
+    if (process.env.MCP_CLIENT_TOKENS_FILE) {
+      this.clientTokens = new ClientTokenRegistry(process.env.MCP_CLIENT_TOKENS_FILE);
+    }
+
+    // OAuth access tokens, accepted alongside any static or scoped client tokens
+    const oauthConfig = getOAuthConfig();
+    if (oauthConfig) {
+      this.oauth = new OAuthTokenVerifier(oauthConfig);
+    }
+
+    // Active sessions by session ID, expired when idle or too old
+    this.sessions = new SessionRegistry();
+    registerActiveSessionsGauge(() => this.sessions.size);
+
+    // JSONL audit trail of every tool call
+    const auditConfig = getAuditLogConfig();
+    if (auditConfig) {
+      this.auditLog = new AuditLog(auditConfig);
+    }
     
     // Get port from environment
     this.port = parseInt(process.env.MCP_PORT || '3001', 10);
+    this.metricsPort = process.env.MCP_METRICS_PORT ? parseInt(process.env.MCP_METRICS_PORT, 10) : undefined;
 
     // Verify configuration on startup
     this.validateConfiguration();
 
-    // Set up HTTP endpoints
-    this.setupHttpEndpoints(limiter);
+    // Set up HTTP endpoints (stdio mode serves MCP without Express)
+    if (mode === 'http') {
+      this.setupHttpEndpoints(limiter);
+    }
     
     // Set up error handling
     this.setupErrorHandling();
@@ -94,12 +206,38 @@ Please ensure VERCEL_API_BASE_URL and MASTRA_API_KEY are set in your environment
       `.trim());
     }
 
-    const hasClientToken = !!process.env.MCP_CLIENT_TOKEN;
+    if (process.env.MCP_REDACTION_POLICIES_FILE && !process.env.MCP_PSEUDONYM_SECRET) {
+      console.warn('[MCP Server] MCP_PSEUDONYM_SECRET is not set; pseudonymized IDs will change when the server restarts');
+    }
+
+    const clientAuthentication = [
+      this.oauth && `OAuth (issuer ${this.oauth.config.issuer})`,
+      this.clientTokens && `scoped tokens (${this.clientTokens.size} in ${process.env.MCP_CLIENT_TOKENS_FILE})`,
+      !this.clientTokens && process.env.MCP_CLIENT_TOKEN && 'shared token',
+    ].filter(Boolean).join(', ') || 'disabled (public access)';
+    const transport = this.mode === 'stdio' ? 'stdio (local client, no authentication)' : `HTTP on port ${this.port}`;
     
+    const upstream = {
+      live: `${status.baseUrl} (API key configured)`,
+      mock: `mock, no network (fixtures in ${getFixtureConfig().dir}, synthetic data for other events)`,
+      record: `${status.baseUrl}, recording scrubbed fixtures to ${getFixtureConfig().dir}`,
+    }[status.upstreamMode];
+
+    // Fly.io's scraper cannot send a bearer token, so it needs the dedicated metrics port
+    if (process.env.FLY_APP_NAME && process.env.MCP_METRICS_TOKEN && !this.metricsPort) {
+      console.warn('[MCP Server] MCP_METRICS_TOKEN is set without MCP_METRICS_PORT; Fly.io metrics scrapes of /metrics will be rejected');
+    }
+
+    if (status.upstreamMode === 'record' && !process.env.MCP_PSEUDONYM_SECRET) {
+      console.warn('[MCP Server] MCP_PSEUDONYM_SECRET is not set; recorded pseudonyms will differ between recording runs');
+    }
+
     console.log(`[MCP Server] Configuration valid:
-- API Base URL: ${status.baseUrl}
-- API Key: ${'*'.repeat(8)} (configured)
-- Client Authentication: ${hasClientToken ? 'enabled' : 'disabled (public access)'}
+- Platform API: ${upstream}
+- Transport: ${transport}
+- Client Authentication: ${this.mode === 'stdio' ? 'not applicable' : clientAuthentication}
+- Redaction Policies: ${process.env.MCP_REDACTION_POLICIES_FILE ?? 'none (unredacted)'}
+- Audit Log: ${this.auditLog ? this.auditLog.config.file : 'disabled'}
 - Environment: ${process.env.NODE_ENV ?? 'development'}`);
   }
 
@@ -119,14 +257,18 @@ Please ensure VERCEL_API_BASE_URL and MASTRA_API_KEY are set in your environment
   private async shutdown(): Promise<void> {
     console.log('\n[MCP Server] Shutting down gracefully...');
     
-    // Close all active transports
-    for (const [sessionId, transport] of this.transports.entries()) {
-      console.log(`[MCP Server] Closing session: ${sessionId}`);
-      await transport.close();
-    }
-    this.transports.clear();
+    // Close all active sessions
+    this.sessions.stopSweeping();
+    await this.sessions.closeAll('server shutting down');
     
+    await this.stdioServer?.close();
+
+    this.metricsServer?.close();
+
     // Close HTTP server
+    if (!this.httpServer) {
+      return;
+    }
     return new Promise((resolve) => {
       this.httpServer?.close(() => {
         console.log('[MCP Server] HTTP server closed');
@@ -144,77 +286,245 @@ Please ensure VERCEL_API_BASE_URL and MASTRA_API_KEY are set in your environment
       {
         capabilities: {
           tools: {},
+          resources: {},
+          prompts: {},
         },
       }
     );
 
     this.setupToolHandlers(server);
+    this.setupResourceHandlers(server);
+    this.setupPromptHandlers(server);
     return server;
   }
 
   private setupHttpEndpoints(limiter: any): void {
     // Authentication middleware for MCP endpoint
-    const authenticateClient = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    // With scoped tokens the authenticated client is stored in res.locals.client
+    const authenticateClient = async (req: express.Request, res: express.Response, next: express.NextFunction) => {
       const clientToken = process.env.MCP_CLIENT_TOKEN;
       
       // Skip authentication if no token is configured
-      if (!clientToken) {
+      if (!this.oauth && !this.clientTokens && !clientToken) {
         return next();
       }
 
       const authHeader = req.headers.authorization;
       const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
 
-      if (!token || token !== clientToken) {
+      const reject = (message: string) => {
+        // Tell OAuth clients where to find the authorization server
+        if (this.oauth) {
+          res.setHeader('WWW-Authenticate', this.oauth.challenge(token ? message : undefined));
+        }
         return res.status(401).json({
           jsonrpc: '2.0',
           error: { 
             code: -32000, 
-            message: 'Invalid or missing client authentication token' 
+            message 
           },
           id: null,
         });
+      };
+
+      // JWT access tokens from the OAuth authorization server
+      if (this.oauth && token && looksLikeJwt(token)) {
+        const result = await this.oauth.verify(token);
+        if (!result.ok) {
+          return reject(result.description);
+        }
+        res.locals.client = result.client;
+        return next();
+      }
+
+      if (this.clientTokens) {
+        const result = token ? this.clientTokens.authenticate(token) : null;
+        if (!result?.ok) {
+          return reject(result?.reason === 'expired'
+            ? 'Client authentication token has expired'
+            : 'Invalid or missing client authentication token');
+        }
+        res.locals.client = result.client;
+        return next();
+      }
+
+      if (!token || !clientToken || !bearerTokenMatches(authHeader, clientToken)) {
+        return reject('Invalid or missing client authentication token');
       }
 
       next();
     };
+
+    // OAuth protected resource metadata (RFC 9728), at the root and path-specific locations
+    if (this.oauth) {
+      const metadata = this.oauth.getProtectedResourceMetadata();
+      this.app.get(this.oauth.metadataPaths, (req, res) => {
+        res.json(metadata);
+      });
+    }
+    // Admin routes are only enabled when MCP_ADMIN_TOKEN is set
+    const authenticateAdmin = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+      const adminToken = process.env.MCP_ADMIN_TOKEN;
+      if (!adminToken) {
+        return res.status(404).json({ success: false, error: 'Admin routes are disabled (MCP_ADMIN_TOKEN is not set)' });
+      }
+
+      if (!bearerTokenMatches(req.headers.authorization, adminToken)) {
+        return res.status(401).json({ success: false, error: 'Invalid or missing admin token' });
+      }
+
+      next();
+    };
+
     // Health check endpoint
     this.app.get('/health', (req, res) => {
       const status = this.apiClient.getStatus();
       res.json({
-        status: 'ok',
+        status: status.circuitBreaker.state === 'open' ? 'degraded' : 'ok',
         timestamp: new Date().toISOString(),
         server: 'ftc-platform-mcp',
         version: '1.0.0',
         apiClient: status,
-        activeSessions: this.transports.size
+        cache: this.apiClient.getCacheStats(),
+        activeSessions: this.sessions.size
       });
     });
 
+    // Prometheus metrics, optionally protected by MCP_METRICS_TOKEN; the
+    // dedicated MCP_METRICS_PORT listener serves them without it
+    this.app.get('/metrics', async (req, res) => {
+      const metricsToken = process.env.MCP_METRICS_TOKEN;
+      if (metricsToken && !bearerTokenMatches(req.headers.authorization, metricsToken)) {
+        res.status(401).send('Invalid or missing metrics token\n');
+        return;
+      }
+      await sendMetrics(res);
+    });
+
+    // Report download endpoint with rate limiting and authentication
+    this.app.get('/events/:eventId/report', limiter, authenticateClient, async (req, res) => {
+      const client = res.locals.client as ClientIdentity | undefined;
+      const denial = getToolCallDenial(client, 'export_event_report', req.params.eventId);
+      if (denial) {
+        res.status(403).json({ success: false, error: denial });
+        return;
+      }
+
+      try {
+        const options = parseReportOptions(req.query as Record<string, unknown>);
+        const report = await buildEventReport(this.readerFor(client), req.params.eventId, options);
+
+        res.setHeader('Content-Type', report.mimeType);
+        res.setHeader('Content-Disposition', `attachment; filename="${report.filename}"`);
+        res.send(report.body);
+      } catch (error) {
+        console.error('[MCP Server] Report export error:', error);
+        res.status(400).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    });
+
+    // Session inspection and termination for operators
+    this.app.get('/admin/sessions', limiter, authenticateAdmin, (req, res) => {
+      res.json({
+        success: true,
+        activeSessions: this.sessions.size,
+        limits: this.sessions.limits,
+        sessions: this.sessions.list(),
+      });
+    });
+
+    // Audit log search, newest first
+    this.app.get('/admin/audit', limiter, authenticateAdmin, async (req, res) => {
+      if (!this.auditLog) {
+        res.status(404).json({ success: false, error: 'Audit logging is disabled' });
+        return;
+      }
+
+      const { eventId, client, tool, since, until, limit } = req.query as Record<string, string | undefined>;
+      const query: AuditQuery = { eventId, client, tool, since, until, limit: limit ? Math.min(parseInt(limit, 10) || 100, 1000) : 100 };
+      try {
+        const records = await this.auditLog.query(query);
+        res.json({ success: true, query, count: records.length, records });
+      } catch (error) {
+        console.error('[MCP Server] Audit query error:', error);
+        res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    });
+
+    // Cache flush for operators, e.g. when no client token grants invalidate_cache
+    this.app.delete('/admin/cache', limiter, authenticateAdmin, (req, res) => {
+      const eventId = typeof req.query.eventId === 'string' && req.query.eventId ? req.query.eventId : undefined;
+      res.json({ success: true, eventId: eventId ?? null, removedEntries: this.apiClient.invalidateCache(eventId), cache: this.apiClient.getCacheStats() });
+    });
+
+    this.app.delete('/admin/sessions/:sessionId', limiter, authenticateAdmin, async (req, res) => {
+      const terminated = await this.sessions.terminate(req.params.sessionId, 'terminated by admin');
+      if (!terminated) {
+        res.status(404).json({ success: false, error: `Unknown session: ${req.params.sessionId}` });
+        return;
+      }
+      res.json({ success: true, sessionId: req.params.sessionId });
+    });
+
     // Main MCP endpoint with rate limiting and authentication
     this.app.all('/mcp', limiter, authenticateClient, async (req, res) => {
       try {
         const sessionId = req.headers['mcp-session-id'] as string;
-        let transport = sessionId ? this.transports.get(sessionId) : undefined;
+        const client = res.locals.client as ClientIdentity | undefined;
+        const session = sessionId ? this.sessions.get(sessionId) : undefined;
+        let transport = session?.transport;
+
+        // A session can only be used with the token that opened it
+        if (session && session.client?.name !== client?.name) {
+          res.status(403).json({
+            jsonrpc: '2.0',
+            error: {
+              code: -32000,
+              message: 'Session was opened with a different client token'
+            },
+            id: null,
+          });
+          return;
+        }
+        if (session) {
+          this.sessions.touch(sessionId, client);
+        }
 
         if (!transport && req.method === 'POST' && isInitializeRequest(req.body)) {
+          const clientKey = client?.name ?? req.body.params.clientInfo.name;
+          const denial = this.sessions.getCapacityDenial(clientKey);
+          if (denial) {
+            res.status(429).json({
+              jsonrpc: '2.0',
+              error: {
+                code: -32000,
+                message: denial
+              },
+              id: null,
+            });
+            return;
+          }
+
           // Create new transport for initialization request
+          const server = this.createMcpServer();
           transport = new StreamableHTTPServerTransport({
             sessionIdGenerator: () => randomUUID(),
             onsessioninitialized: (newSessionId: string) => {
               if (transport) {
-                this.transports.set(newSessionId, transport);
+                this.sessions.add({ id: newSessionId, transport, server, client, clientKey });
               }
             }
           });
 
           transport.onclose = () => {
             if (transport?.sessionId) {
-              this.transports.delete(transport.sessionId);
+              this.sessions.remove(transport.sessionId);
             }
           };
 
-          const server = this.createMcpServer();
           await server.connect(transport);
         } else if (!transport && sessionId) {
           res.status(400).json({
@@ -254,178 +564,63 @@ Please ensure VERCEL_API_BASE_URL and MASTRA_API_KEY are set in your environment
     });
   }
 
+  /**
+   * Client token a session was opened with, or undefined when token scopes are not configured
+   */
+  private clientFor(sessionId?: string): ClientIdentity | undefined {
+    return sessionId ? this.sessions.get(sessionId)?.client : undefined;
+  }
+
+  /**
+   * Platform reader applying the redaction policy of the caller, identified by
+   * its scoped client token or OAuth client name. Callers without one get the
+   * default policy: the clientInfo name is self-reported, so it never selects
+   * an override.
+   */
+  private readerFor(client?: ClientIdentity): PlatformReader {
+    const policy = resolveRedactionPolicy(this.redactionConfig, client?.name);
+    return isOpenPolicy(policy) ? this.apiClient : new RedactingReader(this.apiClient, policy, this.pseudonymizer);
+  }
+
   private setupToolHandlers(server: Server): void {
-    // Register available tools
-    server.setRequestHandler(ListToolsRequestSchema, async () => {
-      return {
-        tools: [
-          {
-            name: "test_connection",
-            description: "Test connection to the FTC Platform API and verify the MCP server is working properly",
-            inputSchema: {
-              type: "object",
-              properties: {},
-              required: [],
-            },
-          },
-          {
-            name: "get_event_applications",
-            description: "Get all applications for a specific event with complete data for AI analysis and ranking. Returns applicant information, responses to all questions, and metadata for evaluation.",
-            inputSchema: {
-              type: "object",
-              properties: {
-                eventId: {
-                  type: "string",
-                  description: "The unique ID of the event to fetch applications for",
-                },
-              },
-              required: ["eventId"],
-            },
-          },
-          {
-            name: "get_event_evaluations",
-            description: "Get completed evaluations for applications in a specific event. Includes reviewer scores, comments, recommendations, and statistics for AI analysis of human evaluation patterns.",
-            inputSchema: {
-              type: "object",
-              properties: {
-                eventId: {
-                  type: "string",
-                  description: "The unique ID of the event to fetch evaluations for",
-                },
-              },
-              required: ["eventId"],
-            },
-          },
-          {
-            name: "get_evaluation_criteria",
-            description: "Get evaluation criteria categorized for AI understanding. Provides scoring rubrics, weights, and guidelines used by human reviewers for consistent AI application scoring.",
-            inputSchema: {
-              type: "object",
-              properties: {
-                eventId: {
-                  type: "string",
-                  description: "The unique ID of the event to get evaluation criteria for (provides context)",
-                },
-              },
-              required: ["eventId"],
-            },
-          },
-          {
-            name: "get_application_questions",
-            description: "Get application questions structure and metadata. Provides the complete question set, types, and requirements for understanding application data format and content.",
-            inputSchema: {
-              type: "object",
-              properties: {
-                eventId: {
-                  type: "string",
-                  description: "The unique ID of the event to fetch application questions for",
-                },
-              },
-              required: ["eventId"],
-            },
-          },
-        ],
-      };
+    // Only list the tools the caller's token grants
+    server.setRequestHandler(ListToolsRequestSchema, async (_request, extra) => {
+      const client = this.clientFor(extra.sessionId);
+      return { tools: toolRegistry.list(getDefaultLocale(), name => canUseTool(client, name)) };
     });
 
     // Handle tool execution
-    server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest) => {
-      const { name, arguments: args } = request.params;
+    const callTool = async (request: CallToolRequest, extra: ToolCallExtra): Promise<CallToolResult> => {
+      const { name, arguments: rawArgs } = request.params;
+      const client = this.clientFor(extra.sessionId);
+      // Errors before validation use the requested locale when it is a valid one
+      const requestedLocale = isLocale(rawArgs?.locale) ? rawArgs.locale : getDefaultLocale();
+      // Out-of-scope calls are rejected as JSON-RPC errors rather than tool errors
+      authorizeToolCall(client, name, rawArgs?.eventId, requestedLocale);
+
+      const tool = toolRegistry.get(name);
+      if (!tool) {
+        throw new McpError(ErrorCode.InvalidParams, translate(requestedLocale, 'errors.unknownTool', { tool: name }));
+      }
+      const args = toolRegistry.parseArguments(tool, rawArgs, requestedLocale);
+      const locale = parseLocale(args.locale);
+      if (extra.sessionId) {
+        this.sessions.recordToolCall(extra.sessionId, name);
+      }
 
       try {
         console.log(`[MCP Server] Executing tool: ${name}`, args);
-        
-        switch (name) {
-          case "test_connection": {
-            const result = await this.apiClient.testConnection();
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify({
-                    ...result,
-                    mcpServer: "ftc-platform-mcp",
-                    version: "1.0.0",
-                    apiClient: this.apiClient.getStatus()
-                  }, null, 2),
-                },
-              ],
-            };
-          }
-
-          case "get_event_applications": {
-            const { eventId } = args as { eventId: string };
-            if (!eventId) {
-              throw new Error("eventId is required");
-            }
-
-            const result = await this.apiClient.getEventApplications(eventId);
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(result, null, 2),
-                },
-              ],
-            };
-          }
-
-          case "get_event_evaluations": {
-            const { eventId } = args as { eventId: string };
-            if (!eventId) {
-              throw new Error("eventId is required");
-            }
 
-            const result = await this.apiClient.getEventEvaluations(eventId);
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(result, null, 2),
-                },
-              ],
-            };
-          }
-
-          case "get_evaluation_criteria": {
-            const { eventId } = args as { eventId: string };
-            if (!eventId) {
-              throw new Error("eventId is required");
-            }
-
-            const result = await this.apiClient.getEvaluationCriteria(eventId);
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(result, null, 2),
-                },
-              ],
-            };
-          }
-
-          case "get_application_questions": {
-            const { eventId } = args as { eventId: string };
-            if (!eventId) {
-              throw new Error("eventId is required");
-            }
-
-            const result = await this.apiClient.getApplicationQuestions(eventId);
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(result, null, 2),
-                },
-              ],
-            };
-          }
-
-          default:
-            throw new Error(`Unknown tool: ${name}`);
-        }
+        return await toolRegistry.call(tool, args, {
+          reader: this.readerFor(client),
+          apiClient: this.apiClient,
+          searchIndexes: this.searchIndexes,
+          locale,
+        });
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+        const errorMessage = error instanceof LocalizedError
+          ? error.localize(locale)
+          : error instanceof Error ? error.message : "Unknown error occurred";
         console.error(`[MCP Server] Tool execution failed: ${name}`, errorMessage);
         
         return {
@@ -437,27 +632,134 @@ Please ensure VERCEL_API_BASE_URL and MASTRA_API_KEY are set in your environment
                 error: errorMessage,
                 tool: name,
                 timestamp: new Date().toISOString(),
-                details: `Failed to execute MCP tool: ${name}`,
+                details: translate(locale, 'errors.toolFailed', { tool: name }),
+                ...(error instanceof UpstreamValidationError ? {
+                  endpoint: error.endpoint,
+                  validationIssues: error.issues,
+                } : {}),
               }, null, 2),
             },
           ],
           isError: true,
         };
       }
+    };
+
+    server.setRequestHandler(CallToolRequestSchema, (request, extra) => this.instrumentToolCall(server, request, extra, callTool));
+  }
+
+  /**
+   * Run a tool call, writing its audit record and metrics, including for
+   * calls rejected before they run
+   */
+  private async instrumentToolCall(
+    server: Server,
+    request: CallToolRequest,
+    extra: ToolCallExtra,
+    callTool: (request: CallToolRequest, extra: ToolCallExtra) => Promise<CallToolResult>
+  ): Promise<CallToolResult> {
+    const startedAt = Date.now();
+    const upstream: UpstreamCall[] = [];
+    let result: CallToolResult | undefined;
+    let error: string | null = null;
+
+    try {
+      result = await trackUpstreamCalls(upstream, () => callTool(request, extra));
+      if (result.isError) {
+        error = getToolErrorMessage(result);
+      }
+      return result;
+    } catch (thrown) {
+      error = thrown instanceof Error ? thrown.message : String(thrown);
+      throw thrown;
+    } finally {
+      const { name, arguments: args = {} } = request.params;
+      const durationMs = Date.now() - startedAt;
+      const resultBytes = result ? Buffer.byteLength(JSON.stringify(result)) : 0;
+      // Unregistered names share one label to keep metric cardinality bounded
+      observeToolCall(toolRegistry.has(name) ? name : 'unknown', durationMs, resultBytes, error !== null);
+
+      const clientInfo = server.getClientVersion();
+      void this.auditLog?.write({
+        timestamp: new Date(startedAt).toISOString(),
+        sessionId: extra.sessionId ?? null,
+        client: {
+          name: this.clientFor(extra.sessionId)?.name ?? null,
+          clientInfo: clientInfo ? { name: clientInfo.name, version: clientInfo.version } : null,
+        },
+        tool: name,
+        eventId: typeof args.eventId === 'string' ? args.eventId : null,
+        arguments: args,
+        upstream,
+        durationMs,
+        resultBytes,
+        isError: error !== null,
+        error,
+      });
+    }
+  }
+
+  // Resources and prompts are listed and served like the tools that expose the same data
+  private setupResourceHandlers(server: Server): void {
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async (_request, extra) => {
+      const client = this.clientFor(extra.sessionId);
+      return { resourceTemplates: getResourceTemplates(tools => canReadData(client, tools)) };
+    });
+
+    // Concrete resources are only listed for events configured in MCP_RESOURCE_EVENT_IDS
+    server.setRequestHandler(ListResourcesRequestSchema, async (_request, extra) => {
+      const client = this.clientFor(extra.sessionId);
+      const eventIds = getListedEventIds().filter(eventId => canAccessEvent(client, eventId));
+      return { resources: await listResources(this.readerFor(client), eventIds, tools => canReadData(client, tools)) };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+      const { uri } = request.params;
+      const client = this.clientFor(extra.sessionId);
+      console.log(`[MCP Server] Reading resource: ${uri}`);
+
+      const scope = getResourceScope(uri);
+      if (scope) {
+        authorizeDataAccess(client, uri, scope.tools, scope.eventId);
+      }
+      const contents = await readResource(this.readerFor(client), uri);
+      if (!contents) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+      }
+      return { contents: [contents] };
+    });
+  }
+
+  private setupPromptHandlers(server: Server): void {
+    server.setRequestHandler(ListPromptsRequestSchema, async (_request, extra) => {
+      const client = this.clientFor(extra.sessionId);
+      return { prompts: listPrompts(tools => canReadData(client, tools)) };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+      const { name, arguments: args } = request.params;
+      const client = this.clientFor(extra.sessionId);
+      console.log(`[MCP Server] Building prompt: ${name}`, args);
+
+      authorizeDataAccess(client, `prompt "${name}"`, getPromptTools(name) ?? [], args?.eventId);
+      const result = await getPrompt(this.readerFor(client), name, args);
+      if (!result) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+      }
+      return result;
     });
   }
 
   private httpServer?: import('http').Server;
+  private metricsServer?: import('http').Server;
+  private stdioServer?: Server;
 
   async start(): Promise<void> {
-    this.httpServer = this.app.listen(this.port, () => {
-      console.log(`[FTC Platform MCP Server] Started successfully`);
-      console.log(`- Protocol: HTTP/SSE on port ${this.port}`);
-      console.log(`- Health check: http://localhost:${this.port}/health`);
-      console.log(`- MCP endpoint: http://localhost:${this.port}/mcp`);
-      console.log(`- API Proxy Target: ${this.apiClient.getStatus().baseUrl}`);
-      console.log('- Ready to receive MCP connections from Claude AI');
-    });
+    if (this.mode === 'stdio') {
+      await this.startStdio();
+    } else {
+      this.startHttp();
+    }
 
     // Set up graceful shutdown
     process.on('SIGINT', async () => {
@@ -472,12 +774,79 @@ Please ensure VERCEL_API_BASE_URL and MASTRA_API_KEY are set in your environment
       process.exit(0);
     });
   }
+
+  private startHttp(): void {
+    this.httpServer = this.app.listen(this.port, () => {
+      console.log(`[FTC Platform MCP Server] Started successfully`);
+      console.log(`- Protocol: HTTP/SSE on port ${this.port}`);
+      console.log(`- Health check: http://localhost:${this.port}/health`);
+      console.log(`- MCP endpoint: http://localhost:${this.port}/mcp`);
+      console.log(`- API Proxy Target: ${this.apiClient.getStatus().baseUrl}`);
+      console.log('- Ready to receive MCP connections from Claude AI');
+    });
+
+    // Internal port for scrapers that cannot authenticate, such as Fly.io's; never expose it publicly
+    if (this.metricsPort) {
+      const metricsApp = express();
+      metricsApp.get('/metrics', async (_req, res) => {
+        await sendMetrics(res);
+      });
+      this.metricsServer = metricsApp.listen(this.metricsPort, () => {
+        console.log(`- Metrics: http://localhost:${this.metricsPort}/metrics (no token)`);
+      });
+    }
+
+    // Expire idle and long-lived sessions
+    this.sessions.startSweeping();
+  }
+
+  /**
+   * Serve a single MCP session over stdin/stdout for local clients such as
+   * Claude Desktop. Handlers are the same as for HTTP sessions; there is no
+   * client token, so every tool is available.
+   */
+  private async startStdio(): Promise<void> {
+    this.stdioServer = this.createMcpServer();
+    await this.stdioServer.connect(new StdioServerTransport());
+
+    console.log(`[FTC Platform MCP Server] Started successfully`);
+    console.log('- Protocol: stdio');
+    console.log(`- API Proxy Target: ${this.apiClient.getStatus().baseUrl}`);
+
+    // The client closing stdin ends the session
+    process.stdin.on('end', async () => {
+      await this.shutdown();
+      process.exit(0);
+    });
+  }
+}
+
+type TransportMode = 'http' | 'stdio';
+
+/**
+ * `--stdio` or MCP_TRANSPORT=stdio serves MCP over stdin/stdout instead of HTTP
+ */
+function getTransportMode(argv: string[]): TransportMode {
+  if (argv.includes('--stdio')) {
+    return 'stdio';
+  }
+  const mode = process.env.MCP_TRANSPORT ?? 'http';
+  if (mode !== 'http' && mode !== 'stdio') {
+    throw new Error(`Invalid MCP_TRANSPORT: ${mode} (expected http or stdio)`);
+  }
+  return mode;
 }
 
 // Start the server
 async function main() {
   try {
-    const server = new FtcMcpServer();
+    const mode = getTransportMode(process.argv.slice(2));
+    if (mode === 'stdio') {
+      // stdout carries JSON-RPC messages, so all logging goes to stderr
+      console.log = console.error;
+    }
+
+    const server = new FtcMcpServer(mode);
     await server.start();
   } catch (error) {
     console.error("Failed to start FTC Platform MCP Server:", error);
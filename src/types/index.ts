@@ -9,6 +9,7 @@ export interface EventApplicationsData {
   eventId: string;
   applications: Application[];
   totalCount: number;
+  nextCursor?: string | null;
   metadata: {
     generatedAt: string;
     purpose: string;
@@ -245,4 +246,51 @@ export interface TestConnectionData {
   success: boolean;
   message: string;
   timestamp: string;
-}
\ No newline at end of file
+}
+
+export interface ApplicationsQuery {
+  status?: string;
+  isComplete?: boolean;
+  language?: string;
+  submittedAfter?: string;
+  submittedBefore?: string;
+  minCompletionPercentage?: number;
+  questionKeys?: string[];
+  limit?: number;
+  cursor?: string;
+}
+
+export type Recommendation = 'ACCEPT' | 'REJECT' | 'WAITLIST' | 'NEEDS_MORE_INFO';
+
+export interface AiCriterionScore {
+  criteriaId: string;
+  score: number;
+  reasoning: string;
+}
+
+export interface AiEvaluationInput {
+  applicationId: string;
+  scores: AiCriterionScore[];
+  overallScore?: number;
+  overallComments?: string;
+  recommendation?: Recommendation;
+  confidence?: number;
+  stage?: string;
+}
+
+export interface AiEvaluationDraft extends AiEvaluationInput {
+  eventId: string;
+  status: 'DRAFT';
+  reviewer: {
+    id: string;
+    name: string;
+    type: 'AI';
+  };
+  submittedAt: string;
+}
+
+export interface EvaluationDraftResult {
+  id: string;
+  applicationId: string;
+  status: string;
+}
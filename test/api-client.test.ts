@@ -0,0 +1,79 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { VercelApiClient } from '../src/lib/api-client.js';
+import { EVENT_ID, syntheticEvent } from './mock-platform.js';
+
+const { criteria } = syntheticEvent();
+
+type Reply = { status: number; etag?: string };
+
+describe('VercelApiClient against a live upstream', () => {
+  let server: Server;
+  let replies: Reply[] = [];
+  let requests: IncomingMessage[] = [];
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      requests.push(request);
+      const reply = replies.shift() ?? { status: 200 };
+      response.writeHead(reply.status, {
+        'Content-Type': 'application/json',
+        ...(reply.etag ? { ETag: reply.etag } : {})
+      });
+      response.end(reply.status === 200 ? JSON.stringify({ success: true, data: criteria }) : '');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    Object.assign(process.env, {
+      MCP_UPSTREAM_MODE: 'live',
+      VERCEL_API_BASE_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      MASTRA_API_KEY: 'test-key',
+      MCP_UPSTREAM_MAX_RETRIES: '2',
+      MCP_UPSTREAM_RETRY_BASE_MS: '1',
+      MCP_UPSTREAM_RETRY_MAX_MS: '5',
+      MCP_CIRCUIT_FAILURE_THRESHOLD: '2',
+      MCP_CACHE_TTL_CRITERIA_SECONDS: '0'
+    });
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    replies = [];
+    requests = [];
+  });
+
+  it('retries server errors until upstream answers', async () => {
+    replies = [{ status: 503 }, { status: 502 }, { status: 200 }];
+    const client = new VercelApiClient();
+
+    expect(await client.getEvaluationCriteria(EVENT_ID)).toEqual(criteria);
+    expect(requests).toHaveLength(3);
+    expect(requests[0].headers.authorization).toBe('Bearer test-key');
+    expect(client.getStatus().circuitBreaker.state).toBe('closed');
+  });
+
+  it('opens the circuit after repeated failed requests', async () => {
+    replies = Array.from({ length: 6 }, () => ({ status: 500 }));
+    const client = new VercelApiClient();
+
+    await expect(client.getEvaluationCriteria(EVENT_ID)).rejects.toMatchObject({ key: 'errors.upstreamStatus' });
+    await expect(client.getEvaluationCriteria(EVENT_ID)).rejects.toMatchObject({ key: 'errors.upstreamStatus' });
+    await expect(client.getEvaluationCriteria(EVENT_ID)).rejects.toMatchObject({ key: 'errors.circuitOpen' });
+    expect(requests).toHaveLength(6);
+  });
+
+  it('revalidates expired responses with their ETag', async () => {
+    replies = [{ status: 200, etag: '"criteria-v1"' }, { status: 304 }];
+    const client = new VercelApiClient();
+
+    await client.getEvaluationCriteria(EVENT_ID);
+    expect(await client.getEvaluationCriteria(EVENT_ID)).toEqual(criteria);
+    expect(requests[1].headers['if-none-match']).toBe('"criteria-v1"');
+    expect(client.getCacheStats()).toMatchObject({ misses: 1, revalidations: 1 });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from '@jest/globals';
+import { auditApplications } from '../src/lib/application-audit.js';
+import type { Application } from '../src/types/index.js';
+import { applicationsEvent, applicationWith, syntheticEvent } from './mock-platform.js';
+
+const { questions } = syntheticEvent();
+
+function optionsOf(questionKey: string): string[] {
+  return questions.questions.find(question => question.questionKey === questionKey)!.options!;
+}
+
+/** An application answering every question with a valid value, overridden by `answers` */
+function answered(id: string, answers: Record<string, string> = {}): Application {
+  return applicationWith(id, {
+    name: 'Valid Applicant',
+    email: 'valid@example.com',
+    answers: {
+      full_name: 'Valid Applicant',
+      email: 'valid@example.com',
+      telegram: '@valid',
+      country: optionsOf('country')[0],
+      role: optionsOf('role')[0],
+      experience: optionsOf('experience')[0],
+      motivation: 'To learn',
+      project_idea: 'A wallet',
+      ...answers
+    }
+  });
+}
+
+describe('auditApplications', () => {
+  it('finds each kind of defect and nothing in a valid application', () => {
+    const [firstRole, secondRole, thirdRole] = optionsOf('role');
+    const retired = answered('app-retired');
+    retired.responses.push({ ...retired.responses[0], questionId: 'retired', questionKey: 'referral_source', answer: 'A friend' });
+
+    const report = auditApplications(applicationsEvent([
+      answered('app-valid'),
+      answered('app-country', { country: 'Venezuela' }),
+      answered('app-roles', { role: JSON.stringify([firstRole, secondRole, thirdRole]) }),
+      answered('app-blank', { motivation: '', telegram: '' }),
+      retired
+    ]), questions);
+
+    const byType = Object.fromEntries(report.groups.map(group => [group.issueType, group.issues.map(issue => issue.applicationId)]));
+    expect(byType).toEqual({
+      missingRequired: ['app-blank'],
+      invalidOption: ['app-country'],
+      tooManyOptions: ['app-roles'],
+      emptyContactField: ['app-blank'],
+      unknownQuestion: ['app-retired']
+    });
+    expect(report.applications.map(application => application.applicationId)).not.toContain('app-valid');
+    expect(report.summary).toMatchObject({ applicationsAudited: 5, applicationsWithIssues: 4, completeWithMissingRequired: 1 });
+    expect(report.groups.find(group => group.issueType === 'invalidOption')!.issues[0].values).toEqual(['Venezuela']);
+  });
+
+  it('audits the synthetic event without echoing contact answers', () => {
+    const { applications } = syntheticEvent();
+    const report = auditApplications(applications, questions, { issueTypes: ['missingRequired', 'emptyContactField'], limit: 2 });
+
+    expect(report.groups.map(group => group.issueType)).toEqual(['missingRequired', 'emptyContactField']);
+    expect(report.summary.totalIssues).toBeGreaterThan(0);
+    for (const group of report.groups) {
+      expect(group.issues.length).toBeLessThanOrEqual(2);
+      expect(group.count).toBeGreaterThanOrEqual(group.issues.length);
+      for (const issue of group.issues) {
+        expect(issue.values).toBeUndefined();
+      }
+    }
+  });
+});
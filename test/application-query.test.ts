@@ -0,0 +1,54 @@
+import { describe, expect, it } from '@jest/globals';
+import { applyApplicationsQuery } from '../src/lib/application-query.js';
+import { createMockClient, EVENT_ID, syntheticEvent } from './mock-platform.js';
+
+describe('application paging on the mock backend', () => {
+  it('walks every application exactly once with cursors', async () => {
+    const client = createMockClient();
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+
+    do {
+      const page = await client.getEventApplications(EVENT_ID, { limit: 5, cursor });
+      expect(page.applications.length).toBeLessThanOrEqual(5);
+      expect(page.totalCount).toBe(24);
+      seen.push(...page.applications.map(application => application.id));
+      cursor = page.nextCursor ?? undefined;
+      pages++;
+    } while (cursor);
+
+    expect(pages).toBe(5);
+    expect(new Set(seen).size).toBe(24);
+    expect(seen).toEqual(syntheticEvent().applications.applications.map(application => application.id));
+  });
+
+  it('pages filtered applications and projects responses', async () => {
+    const client = createMockClient();
+    const page = await client.getEventApplications(EVENT_ID, { isComplete: true, questionKeys: ['motivation'], limit: 100 });
+
+    expect(page.applications.every(application => application.isComplete)).toBe(true);
+    expect(page.totalCount).toBe(page.applications.length);
+    expect(page.nextCursor).toBeNull();
+    for (const application of page.applications) {
+      expect(application.responses.map(response => response.questionKey)).toEqual(['motivation']);
+    }
+  });
+
+  it('rejects cursors it did not issue', async () => {
+    const client = createMockClient();
+    await expect(client.getEventApplications(EVENT_ID, { limit: 5, cursor: 'not-a-cursor' }))
+      .rejects.toMatchObject({ key: 'errors.invalidCursor' });
+  });
+
+  it('leaves paging to upstream when it already returned a cursor', () => {
+    const { applications } = syntheticEvent();
+    const upstreamPage = { ...applications, applications: applications.applications.slice(0, 3), nextCursor: 'upstream' };
+
+    expect(applyApplicationsQuery(upstreamPage, { limit: 1 })).toMatchObject({
+      applications: upstreamPage.applications,
+      totalCount: applications.totalCount,
+      nextCursor: 'upstream'
+    });
+  });
+});
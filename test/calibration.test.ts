@@ -0,0 +1,49 @@
+import { describe, expect, it } from '@jest/globals';
+import { getAiReviewer } from '../src/lib/ai-evaluation.js';
+import { computeReviewerCalibration } from '../src/lib/calibration.js';
+import { krippendorffAlphaInterval } from '../src/lib/statistics.js';
+import { aiDraftOf, createMockClient, EVENT_ID } from './mock-platform.js';
+
+describe('krippendorffAlphaInterval', () => {
+  it('is 1 for perfect agreement and negative for systematic disagreement', () => {
+    expect(krippendorffAlphaInterval([[1, 1], [3, 3], [5, 5]])).toBe(1);
+    expect(krippendorffAlphaInterval([[1, 2], [2, 1]])).toBeCloseTo(-0.5);
+  });
+
+  it('ignores units rated once and returns null without pairable values', () => {
+    expect(krippendorffAlphaInterval([[1, 1], [3, 3], [4]])).toBe(1);
+    expect(krippendorffAlphaInterval([[1], [2]])).toBeNull();
+  });
+});
+
+describe('computeReviewerCalibration', () => {
+  it('measures a reviewer who scores lower than the panel as negatively biased', async () => {
+    const data = await createMockClient().getEventEvaluations(EVENT_ID);
+    const baseline = computeReviewerCalibration(data);
+    const reviewer = [...baseline.reviewers].sort((a, b) => b.comparedScores - a.comparedScores)[0];
+    expect(reviewer.comparedScores).toBeGreaterThan(0);
+
+    const harsher = {
+      ...data,
+      evaluations: data.evaluations.map(evaluation => evaluation.reviewerId !== reviewer.reviewerId ? evaluation : {
+        ...evaluation,
+        scores: evaluation.scores.map(score => ({ ...score, normalizedScore: score.normalizedScore - 0.3 })),
+      }),
+    };
+    const shifted = computeReviewerCalibration(harsher).reviewers.find(candidate => candidate.reviewerId === reviewer.reviewerId)!;
+    expect(shifted.bias!).toBeLessThan(reviewer.bias! - 0.1);
+    expect(shifted.zOffset!).toBeLessThan(0);
+  });
+
+  it('builds the panel from completed evaluations by human reviewers', async () => {
+    const data = await createMockClient().getEventEvaluations(EVENT_ID);
+    const completed = data.evaluations.filter(evaluation => evaluation.status === 'COMPLETED');
+    const withDrafts = { ...data, evaluations: [...data.evaluations, ...completed.slice(0, 3).map(aiDraftOf)] };
+
+    expect(computeReviewerCalibration(withDrafts).panel.evaluationCount).toBe(completed.length);
+
+    const report = computeReviewerCalibration(withDrafts, { includeDrafts: true, excludeReviewerIds: [getAiReviewer().id] });
+    expect(report.panel.evaluationCount).toBe(data.evaluations.length);
+    expect(report.reviewers.map(reviewer => reviewer.reviewerId)).not.toContain(getAiReviewer().id);
+  });
+});
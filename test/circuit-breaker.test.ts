@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { CircuitBreaker } from '../src/lib/circuit-breaker.js';
+import { LocalizedError } from '../src/lib/i18n.js';
+
+const fail = async (): Promise<string> => { throw new Error('upstream down'); };
+const succeed = async (): Promise<string> => 'ok';
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('opens after the failure threshold and fails fast without calling upstream', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1000 });
+    await expect(breaker.execute(fail)).rejects.toThrow('upstream down');
+    expect(breaker.getStatus().state).toBe('closed');
+    await expect(breaker.execute(fail)).rejects.toThrow('upstream down');
+
+    const operation = jest.fn(succeed);
+    const rejection = breaker.execute(operation);
+    await expect(rejection).rejects.toBeInstanceOf(LocalizedError);
+    await expect(rejection).rejects.toMatchObject({ key: 'errors.circuitOpen' });
+    expect(operation).not.toHaveBeenCalled();
+    expect(breaker.getStatus()).toMatchObject({ state: 'open', consecutiveFailures: 2, retryAt: '2026-01-01T00:00:01.000Z' });
+  });
+
+  it('counts results flagged as failures', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 });
+    expect(await breaker.execute(async () => 503, status => status >= 500)).toBe(503);
+    expect(breaker.getStatus().state).toBe('open');
+  });
+
+  it('lets one trial call through after the reset timeout and closes when it succeeds', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 });
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    jest.advanceTimersByTime(1000);
+
+    let finish!: (value: string) => void;
+    const trial = breaker.execute(() => new Promise<string>(resolve => { finish = resolve; }));
+    expect(breaker.getStatus().state).toBe('half-open');
+    await expect(breaker.execute(succeed)).rejects.toMatchObject({ key: 'errors.circuitOpen' });
+
+    finish('ok');
+    expect(await trial).toBe('ok');
+    expect(breaker.getStatus()).toEqual({ state: 'closed', consecutiveFailures: 0, openedAt: null, retryAt: null });
+  });
+
+  it('reopens when the trial call fails', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 1000 });
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await expect(breaker.execute(fail)).rejects.toThrow();
+    }
+    jest.advanceTimersByTime(1000);
+
+    await expect(breaker.execute(fail)).rejects.toThrow('upstream down');
+    expect(breaker.getStatus()).toMatchObject({ state: 'open', consecutiveFailures: 4, openedAt: '2026-01-01T00:00:01.000Z' });
+  });
+});
@@ -0,0 +1,114 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { createHash } from 'node:crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  authorizeDataAccess,
+  authorizeToolCall,
+  canReadData,
+  canUseTool,
+  ClientTokenRegistry,
+  getToolCallDenial,
+  type ClientIdentity
+} from '../src/lib/client-tokens.js';
+import { getPromptTools, listPrompts } from '../src/lib/prompts.js';
+import { getResourceScope, getResourceTemplates, listResources } from '../src/lib/resources.js';
+import { createMockClient, EVENT_ID } from './mock-platform.js';
+
+const criteriaOnly: ClientIdentity = { name: 'criteria-only', tools: new Set(['get_evaluation_criteria']), eventIds: new Set([EVENT_ID]) };
+const unrestricted: ClientIdentity = { name: 'unrestricted', tools: null, eventIds: null };
+const operator: ClientIdentity = { name: 'operator', tools: new Set(['invalidate_cache']), eventIds: null };
+
+function deniedWith(action: () => void): McpError {
+  try {
+    action();
+  } catch (error) {
+    return error as McpError;
+  }
+  throw new Error('Expected the call to be denied');
+}
+
+describe('tool scopes', () => {
+  it('grants tools on the allowlist, and admin tools only by name', () => {
+    expect(canUseTool(criteriaOnly, 'get_evaluation_criteria')).toBe(true);
+    expect(canUseTool(criteriaOnly, 'get_event_applications')).toBe(false);
+    expect(canUseTool(unrestricted, 'get_event_applications')).toBe(true);
+    expect(canUseTool(undefined, 'get_event_applications')).toBe(true);
+
+    expect(canUseTool(unrestricted, 'invalidate_cache')).toBe(false);
+    expect(canUseTool(undefined, 'invalidate_cache')).toBe(false);
+    expect(canUseTool(operator, 'invalidate_cache')).toBe(true);
+  });
+
+  it('denies tool calls outside the token scope as invalid requests', () => {
+    expect(getToolCallDenial(criteriaOnly, 'get_evaluation_criteria', EVENT_ID)).toBeNull();
+    expect(getToolCallDenial(criteriaOnly, 'get_evaluation_criteria', 'other-event')).toMatch(/other-event/);
+    expect(getToolCallDenial(criteriaOnly, 'get_event_evaluations', EVENT_ID, 'es')).not.toBeNull();
+    expect(getToolCallDenial({ ...operator, eventIds: new Set([EVENT_ID]) }, 'invalidate_cache', undefined)).not.toBeNull();
+
+    const error = deniedWith(() => authorizeToolCall(criteriaOnly, 'get_event_applications', EVENT_ID));
+    expect(error).toBeInstanceOf(McpError);
+    expect(error.code).toBe(ErrorCode.InvalidRequest);
+  });
+});
+
+describe('resource and prompt scopes', () => {
+  const canRead = (tools: string[]) => canReadData(criteriaOnly, tools);
+
+  it('lists only the resources and prompts whose tools the client may use', async () => {
+    expect(getResourceTemplates(canRead).map(template => template.uriTemplate)).toEqual(['ftc://events/{eventId}/criteria']);
+    expect(getResourceTemplates().length).toBeGreaterThan(1);
+    expect(listPrompts(canRead)).toEqual([]);
+    expect(listPrompts().map(prompt => prompt.name)).toContain('score_application');
+
+    const resources = await listResources(createMockClient(), [EVENT_ID], canRead);
+    expect(resources.map(resource => resource.uri)).toEqual([`ftc://events/${EVENT_ID}/criteria`]);
+  });
+
+  it('refuses to read resources and prompts that expose data of a denied tool', () => {
+    const application = getResourceScope(`ftc://events/${EVENT_ID}/applications/app-1`)!;
+    expect(application).toEqual({ eventId: EVENT_ID, tools: ['get_event_applications'] });
+
+    const error = deniedWith(() => authorizeDataAccess(criteriaOnly, `ftc://events/${EVENT_ID}/applications/app-1`, application.tools, application.eventId));
+    expect(error.code).toBe(ErrorCode.InvalidRequest);
+    expect(() => authorizeDataAccess(criteriaOnly, 'score_application', getPromptTools('score_application')!, EVENT_ID)).toThrow(McpError);
+    expect(() => authorizeDataAccess(unrestricted, 'score_application', getPromptTools('score_application')!, EVENT_ID)).not.toThrow();
+
+    const criteria = getResourceScope(`ftc://events/${EVENT_ID}/criteria`)!;
+    expect(() => authorizeDataAccess(criteriaOnly, 'criteria', criteria.tools, criteria.eventId)).not.toThrow();
+    expect(() => authorizeDataAccess(criteriaOnly, 'criteria', criteria.tools, 'other-event')).toThrow(McpError);
+  });
+});
+
+describe('ClientTokenRegistry', () => {
+  let dir: string;
+  let file: string;
+  const sha256 = (token: string) => `sha256:${createHash('sha256').update(token).digest('hex')}`;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'client-tokens-'));
+    file = join(dir, 'tokens.json');
+    writeFileSync(file, JSON.stringify({
+      tokens: [
+        { name: 'partner', secretHash: sha256('partner-secret'), tools: ['get_evaluation_criteria'], events: ['*'] },
+        { name: 'former-partner', secretHash: sha256('old-secret'), tools: ['*'], events: ['*'], expiresAt: '2020-01-01T00:00:00Z' }
+      ]
+    }));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('authenticates tokens by their hash and rejects unknown or expired ones', () => {
+    const registry = new ClientTokenRegistry(file);
+    expect(registry.size).toBe(2);
+
+    const result = registry.authenticate('partner-secret');
+    expect(result).toEqual({ ok: true, client: { name: 'partner', tools: new Set(['get_evaluation_criteria']), eventIds: null, expiresAt: undefined } });
+    expect(registry.authenticate('wrong-secret')).toEqual({ ok: false, reason: 'invalid' });
+    expect(registry.authenticate('old-secret')).toEqual({ ok: false, reason: 'expired' });
+  });
+});
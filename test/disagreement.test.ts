@@ -0,0 +1,67 @@
+import { describe, expect, it } from '@jest/globals';
+import { getAiReviewer } from '../src/lib/ai-evaluation.js';
+import { findContestedApplications } from '../src/lib/disagreement.js';
+import type { Evaluation, EventEvaluationsData } from '../src/types/index.js';
+import { aiDraftOf, syntheticEvent } from './mock-platform.js';
+
+const template = syntheticEvent().evaluations.evaluations.find(evaluation => evaluation.status === 'COMPLETED')!;
+
+function evaluation(reviewerId: string, level: 'min' | 'max', overrides: Partial<Evaluation> = {}): Evaluation {
+  return {
+    ...template,
+    id: `app-1-${reviewerId}`,
+    applicationId: 'app-1',
+    reviewerId,
+    reviewer: { id: reviewerId, name: reviewerId },
+    recommendation: level === 'max' ? 'ACCEPT' : 'REJECT',
+    confidence: 5,
+    comments: [],
+    scores: template.scores.map(score => ({
+      ...score,
+      score: score.scoreRange[level],
+      normalizedScore: level === 'max' ? 1 : 0,
+    })),
+    ...overrides,
+  };
+}
+
+function eventWith(evaluations: Evaluation[]): EventEvaluationsData {
+  return { ...syntheticEvent().evaluations, evaluations };
+}
+
+describe('findContestedApplications', () => {
+  it('flags opposite recommendations and score spread, without private comments', () => {
+    const comments = [
+      { id: 'c1', comment: 'Shared with the committee', isPrivate: false, createdAt: template.completedAt! },
+      { id: 'c2', comment: 'Reviewer-only note', isPrivate: true, createdAt: template.completedAt! },
+    ];
+    const report = findContestedApplications(eventWith([
+      evaluation('reviewer-a', 'max', { comments }),
+      evaluation('reviewer-b', 'min'),
+    ]));
+
+    expect(report.totalContested).toBe(1);
+    const [contested] = report.contested;
+    expect(contested.reasons).toContain('Reviewers both ACCEPT and REJECT');
+    expect(contested.contestedCriteria).toHaveLength(template.scores.length);
+    expect(contested.reviewers.flatMap(reviewer => reviewer.comments.map(comment => comment.comment))).toEqual(['Shared with the committee']);
+  });
+
+  it('does not flag agreeing reviewers', () => {
+    const report = findContestedApplications(eventWith([evaluation('reviewer-a', 'max'), evaluation('reviewer-b', 'max')]));
+    expect(report.totalContested).toBe(0);
+    expect(report.applicationsReviewed).toBe(1);
+  });
+
+  it('ignores in-progress evaluations and AI drafts', () => {
+    const aiDraft = { ...aiDraftOf(evaluation('reviewer-a', 'max')), recommendation: 'REJECT', scores: evaluation('x', 'min').scores };
+    const data = eventWith([
+      evaluation('reviewer-a', 'max'),
+      evaluation('reviewer-b', 'min', { status: 'IN_PROGRESS', completedAt: undefined }),
+      aiDraft,
+    ]);
+
+    expect(findContestedApplications(data).totalContested).toBe(0);
+    expect(findContestedApplications(data, { includeDrafts: true, excludeReviewerIds: [getAiReviewer().id] }).totalContested).toBe(1);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from '@jest/globals';
+import { detectDuplicateResponses } from '../src/lib/duplicates.js';
+import { applicationsEvent, applicationWith } from './mock-platform.js';
+
+const ORIGINAL = 'I have organised three community meetups in Bogotá and want to turn them into a regional developer guild that mentors new contributors every month.';
+
+describe('detectDuplicateResponses', () => {
+  it('clusters copy-pasted and lightly edited answers', () => {
+    const report = detectDuplicateResponses(applicationsEvent([
+      applicationWith('app-1', { answers: { motivation: ORIGINAL } }),
+      applicationWith('app-2', { answers: { motivation: ORIGINAL } }),
+      applicationWith('app-3', { answers: { motivation: ORIGINAL.replace('every month', 'every single month') } }),
+      applicationWith('app-4', { answers: { motivation: 'My background is in public health data and I want to build open tools for clinics that cannot afford licences.' } }),
+    ]));
+
+    expect(report.clusters).toHaveLength(1);
+    const [cluster] = report.clusters;
+    expect(cluster.applicationIds).toEqual(['app-1', 'app-2', 'app-3']);
+    expect(cluster.questions[0]).toMatchObject({ questionKey: 'motivation', maxSimilarity: 1 });
+    expect(report.applicationsCompared).toBe(4);
+  });
+
+  it('skips answers shorter than minAnswerLength', () => {
+    const short = 'To learn and to build things.';
+    const report = detectDuplicateResponses(applicationsEvent([
+      applicationWith('app-1', { answers: { motivation: short } }),
+      applicationWith('app-2', { answers: { motivation: short } }),
+    ]));
+    expect(report.clusters).toEqual([]);
+  });
+
+  it('links applicants whose mailbox or email stem match, but not a shared local part on other domains', () => {
+    const report = detectDuplicateResponses(applicationsEvent([
+      applicationWith('app-1', { name: 'Jane Doe', email: 'jane.doe@x.org' }),
+      applicationWith('app-2', { name: 'J. Doe', email: 'janedoe92@x.org' }),
+      applicationWith('app-3', { name: 'Ana Pérez', email: 'Ana.Perez+apply@gmail.com' }),
+      applicationWith('app-4', { name: 'Ana Perez', email: 'anaperez@gmail.com' }),
+      applicationWith('app-5', { name: 'Info One', email: 'info@a.com' }),
+      applicationWith('app-6', { name: 'Info Two', email: 'info2@b.org' }),
+    ]));
+
+    expect(report.clusters.map(cluster => cluster.applicationIds)).toEqual([['app-1', 'app-2'], ['app-3', 'app-4']]);
+    const signals = report.clusters[1].identitySignals.map(signal => signal.signal);
+    expect(signals).toEqual(expect.arrayContaining(['email', 'name']));
+  });
+});
@@ -0,0 +1,65 @@
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getAiReviewer } from '../src/lib/ai-evaluation.js';
+import { VercelApiClient } from '../src/lib/api-client.js';
+import { generateSyntheticEvent, type SyntheticEvent } from '../src/lib/synthetic-data.js';
+import type { Application, Evaluation, EventApplicationsData } from '../src/types/index.js';
+
+export const EVENT_ID = 'test-event';
+
+/**
+ * Platform client on the in-process mock backend. The fixtures directory does
+ * not exist, so every event is served from synthetic data and nothing touches
+ * the network.
+ */
+export function createMockClient(): VercelApiClient {
+  process.env.MCP_UPSTREAM_MODE = 'mock';
+  process.env.MCP_FIXTURES_DIR = join(tmpdir(), 'ftc-platform-mcp-no-fixtures');
+  return new VercelApiClient();
+}
+
+/** The synthetic event the mock backend serves for an event ID, at its default size */
+export function syntheticEvent(eventId = EVENT_ID): SyntheticEvent {
+  return generateSyntheticEvent(eventId, { applications: 24, reviewers: 5 });
+}
+
+/** A DRAFT by the AI reviewer on the same application, giving every criterion its top score */
+export function aiDraftOf(evaluation: Evaluation): Evaluation {
+  const reviewer = getAiReviewer();
+  return {
+    ...evaluation,
+    id: `${evaluation.applicationId}-ai-draft`,
+    reviewerId: reviewer.id,
+    reviewer: { id: reviewer.id, name: reviewer.name, role: 'REVIEWER' },
+    status: 'DRAFT',
+    completedAt: undefined,
+    recommendation: 'ACCEPT',
+    scores: evaluation.scores.map(score => ({ ...score, score: score.scoreRange.max, normalizedScore: 1 }))
+  };
+}
+
+/**
+ * A complete synthetic application with the given ID, applicant and answers;
+ * every other question and contact field is left blank
+ */
+export function applicationWith(
+  id: string,
+  { name = '', email = '', answers = {} }: { name?: string; email?: string; answers?: Record<string, string> } = {}
+): Application {
+  const template = syntheticEvent().applications.applications.find(application => application.isComplete)!;
+  return {
+    ...template,
+    id,
+    applicant: { id: `user-${id}`, name, email },
+    responses: template.responses.map(response => ({ ...response, answer: answers[response.questionKey] ?? '' })),
+  };
+}
+
+export function applicationsEvent(applications: Application[]): EventApplicationsData {
+  return {
+    eventId: EVENT_ID,
+    applications,
+    totalCount: applications.length,
+    metadata: { generatedAt: new Date().toISOString(), purpose: 'Test applications' },
+  };
+}
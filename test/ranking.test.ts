@@ -0,0 +1,62 @@
+import { describe, expect, it } from '@jest/globals';
+import { getAiReviewer } from '../src/lib/ai-evaluation.js';
+import { rankApplications } from '../src/lib/ranking.js';
+import { aiDraftOf, createMockClient, EVENT_ID } from './mock-platform.js';
+
+async function loadEvent() {
+  const client = createMockClient();
+  const [evaluations, criteria] = await Promise.all([
+    client.getEventEvaluations(EVENT_ID),
+    client.getEvaluationCriteria(EVENT_ID),
+  ]);
+  return { evaluations, criteria };
+}
+
+describe('rankApplications', () => {
+  it('ranks by weighted score with a deterministic order', async () => {
+    const { evaluations, criteria } = await loadEvent();
+    const { ranking } = rankApplications(evaluations, criteria);
+
+    expect(ranking.length).toBeGreaterThan(0);
+    expect(ranking.map(entry => entry.rank)).toEqual(ranking.map((_, index) => index + 1));
+    for (let index = 1; index < ranking.length; index++) {
+      expect(ranking[index - 1].weightedScore).toBeGreaterThanOrEqual(ranking[index].weightedScore);
+    }
+    expect(rankApplications(evaluations, criteria).ranking).toEqual(ranking);
+  });
+
+  it('only counts completed evaluations unless drafts are included', async () => {
+    const { evaluations, criteria } = await loadEvent();
+    const completed = evaluations.evaluations.filter(evaluation => evaluation.status === 'COMPLETED');
+    expect(completed.length).toBeLessThan(evaluations.evaluations.length);
+
+    const count = (options = {}) => rankApplications(evaluations, criteria, options).ranking
+      .reduce((total, entry) => total + entry.evaluationCount, 0);
+    expect(count()).toBe(completed.length);
+    expect(count({ includeDrafts: true })).toBe(evaluations.evaluations.length);
+  });
+
+  it('leaves AI reviewer drafts out of the ranking', async () => {
+    const { evaluations, criteria } = await loadEvent();
+    const baseline = rankApplications(evaluations, criteria);
+    const last = baseline.ranking[baseline.ranking.length - 1];
+    const draft = aiDraftOf(evaluations.evaluations.find(evaluation => evaluation.applicationId === last.applicationId)!);
+    const withDraft = { ...evaluations, evaluations: [...evaluations.evaluations, draft] };
+
+    // Even with drafts included, the AI reviewer's top scores do not lift the application
+    const ranked = rankApplications(withDraft, criteria, { includeDrafts: true, excludeReviewerIds: [getAiReviewer().id] });
+    expect(ranked.ranking.find(entry => entry.applicationId === last.applicationId)).toMatchObject({
+      weightedScore: last.weightedScore,
+      evaluationCount: last.evaluationCount,
+    });
+  });
+
+  it('lists applications below the evaluation threshold separately', async () => {
+    const { evaluations, criteria } = await loadEvent();
+    const result = rankApplications(evaluations, criteria, { minEvaluations: 2 });
+
+    expect(result.ranking.every(entry => entry.evaluationCount >= 2)).toBe(true);
+    expect(result.belowThreshold.every(entry => entry.evaluationCount < 2)).toBe(true);
+    expect(result.totalApplications).toBe(result.ranking.length + result.belowThreshold.length);
+  });
+});
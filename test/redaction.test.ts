@@ -0,0 +1,81 @@
+import { describe, expect, it } from '@jest/globals';
+import { Pseudonymizer, RedactingReader, resolveRedactionPolicy, type RedactionConfig, type RedactionPolicy } from '../src/lib/redaction.js';
+import { createMockClient, EVENT_ID } from './mock-platform.js';
+
+const CONTACT_KEYS = ['full_name', 'email', 'telegram'];
+
+function readerWith(policy: Partial<RedactionPolicy>, secret = 'secret'): RedactingReader {
+  return new RedactingReader(
+    createMockClient(),
+    { applicants: 'show', reviewers: 'show', privateComments: 'include', ...policy },
+    new Pseudonymizer(secret)
+  );
+}
+
+describe('RedactingReader on the mock backend', () => {
+  it('masks applicant names and emails and drops contact answers', async () => {
+    const { applications } = await readerWith({ applicants: 'mask' }).getEventApplications(EVENT_ID);
+    const original = await createMockClient().getEventApplications(EVENT_ID);
+
+    for (const application of applications) {
+      expect(application.applicant?.name).toMatch(/^(\p{L}\*\*\* ?)+$/u);
+      expect(application.applicant?.email).toMatch(/^.\*\*\*@example\.com$/);
+      expect(application.responses.some(response => CONTACT_KEYS.includes(response.questionKey))).toBe(false);
+    }
+    expect(JSON.stringify(applications)).not.toContain(original.applications[0].applicant!.email);
+  });
+
+  it('pseudonymizes applicants consistently across applications and evaluations', async () => {
+    const reader = readerWith({ applicants: 'pseudonymize' });
+    const { applications } = await reader.getEventApplications(EVENT_ID);
+    const { evaluations } = await reader.getEventEvaluations(EVENT_ID);
+    const original = await createMockClient().getEventApplications(EVENT_ID);
+
+    const [first] = applications;
+    expect(first.applicant).toEqual({ id: expect.stringMatching(/^applicant-[0-9a-f]{12}$/), name: expect.stringMatching(/^Applicant [0-9a-f]{6}$/) });
+    expect(first.applicant?.email).toBeUndefined();
+    expect(first.userId).toBe(first.applicant?.id);
+    expect(first.applicant?.id).not.toBe(original.applications[0].applicant?.id);
+
+    const evaluation = evaluations.find(candidate => candidate.applicationId === first.id)!;
+    expect(evaluation.application.applicant).toEqual(first.applicant);
+
+    const again = await readerWith({ applicants: 'pseudonymize' }).getEventApplications(EVENT_ID);
+    expect(again.applications[0].applicant).toEqual(first.applicant);
+    const otherSecret = await readerWith({ applicants: 'pseudonymize' }, 'other').getEventApplications(EVENT_ID);
+    expect(otherSecret.applications[0].applicant).not.toEqual(first.applicant);
+  });
+
+  it('hides reviewers behind the pseudonyms reviewerIdFor returns and drops private comments', async () => {
+    const upstream = await createMockClient().getEventEvaluations(EVENT_ID);
+    const reader = readerWith({ reviewers: 'hide', privateComments: 'drop' });
+    const { evaluations } = await reader.getEventEvaluations(EVENT_ID);
+
+    expect(upstream.evaluations.some(evaluation => evaluation.comments.some(comment => comment.isPrivate))).toBe(true);
+    evaluations.forEach((evaluation, index) => {
+      const original = upstream.evaluations[index];
+      expect(evaluation.reviewerId).toBe(reader.reviewerIdFor(EVENT_ID, original.reviewerId));
+      expect(evaluation.reviewerId).not.toBe(original.reviewerId);
+      expect(evaluation.reviewer).toEqual({ id: evaluation.reviewerId, role: original.reviewer.role });
+      expect(evaluation.comments).toEqual(original.comments.filter(comment => !comment.isPrivate));
+    });
+  });
+
+  it('passes data through unchanged under the open policy', async () => {
+    const reader = readerWith({});
+    expect(await reader.getEventEvaluations(EVENT_ID)).toEqual(await createMockClient().getEventEvaluations(EVENT_ID));
+    expect(reader.reviewerIdFor(EVENT_ID, 'reviewer-1')).toBe('reviewer-1');
+  });
+});
+
+describe('resolveRedactionPolicy', () => {
+  it('layers a client override on the default policy', () => {
+    const config: RedactionConfig = {
+      default: { applicants: 'mask', reviewers: 'show', privateComments: 'drop' },
+      clients: { 'blind-scorer': { applicants: 'pseudonymize', reviewers: 'hide' } }
+    };
+    expect(resolveRedactionPolicy(config, 'blind-scorer')).toEqual({ applicants: 'pseudonymize', reviewers: 'hide', privateComments: 'drop' });
+    expect(resolveRedactionPolicy(config, 'someone-else')).toEqual(config.default);
+    expect(resolveRedactionPolicy(config)).toEqual(config.default);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { ResponseCache, type LoadResult } from '../src/lib/response-cache.js';
+
+function loaded<T>(data: T, etag?: string): LoadResult<T> {
+  return { notModified: false, data, etag };
+}
+
+describe('ResponseCache', () => {
+  it('serves fresh entries without loading again', async () => {
+    const cache = new ResponseCache();
+    const load = jest.fn(async () => loaded('applications'));
+
+    expect(await cache.getOrLoad('/applications', 60_000, load)).toBe('applications');
+    expect(await cache.getOrLoad('/applications', 60_000, load)).toBe('applications');
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(cache.getStats()).toMatchObject({ entries: 1, hits: 1, misses: 1 });
+  });
+
+  it('revalidates an expired entry with its ETag and keeps the cached data on 304', async () => {
+    const cache = new ResponseCache();
+    await cache.getOrLoad('/evaluations', 0, async () => loaded('evaluations', '"v1"'));
+
+    const revalidate = jest.fn(async (_etag?: string): Promise<LoadResult<string>> => ({ notModified: true }));
+    expect(await cache.getOrLoad('/evaluations', 0, revalidate)).toBe('evaluations');
+    expect(revalidate).toHaveBeenCalledWith('"v1"');
+    expect(cache.getStats()).toMatchObject({ revalidations: 1, misses: 1 });
+  });
+
+  it('shares one load between concurrent requests for the same key', async () => {
+    const cache = new ResponseCache();
+    let resolve!: (result: LoadResult<string>) => void;
+    const load = jest.fn(() => new Promise<LoadResult<string>>(done => { resolve = done; }));
+
+    const first = cache.getOrLoad('/questions', 60_000, load);
+    const second = cache.getOrLoad('/questions', 60_000, load);
+    resolve(loaded('questions'));
+
+    expect(await Promise.all([first, second])).toEqual(['questions', 'questions']);
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(cache.getStats().dedupedRequests).toBe(1);
+  });
+
+  it('does not cache a load that was in progress when the cache was invalidated', async () => {
+    const cache = new ResponseCache();
+    let resolve!: (result: LoadResult<string>) => void;
+    const pending = cache.getOrLoad('/criteria', 60_000, () => new Promise<LoadResult<string>>(done => { resolve = done; }));
+
+    cache.invalidate('/criteria');
+    resolve(loaded('stale criteria'));
+    expect(await pending).toBe('stale criteria');
+
+    expect(await cache.getOrLoad('/criteria', 60_000, async () => loaded('fresh criteria'))).toBe('fresh criteria');
+    expect(cache.getStats().entries).toBe(1);
+  });
+
+  it('evicts the least recently used entries and drops expired ones that cannot be revalidated', async () => {
+    const cache = new ResponseCache(2);
+    await cache.getOrLoad('/a', 60_000, async () => loaded('a'));
+    await cache.getOrLoad('/b', 60_000, async () => loaded('b'));
+    await cache.getOrLoad('/a', 60_000, async () => loaded('unused'));
+    await cache.getOrLoad('/c', 60_000, async () => loaded('c'));
+
+    expect(cache.getStats()).toMatchObject({ entries: 2, evictions: 1 });
+    expect(await cache.getOrLoad('/a', 60_000, async () => loaded('reloaded a'))).toBe('a');
+    expect(await cache.getOrLoad('/b', 60_000, async () => loaded('reloaded b'))).toBe('reloaded b');
+
+    const expiring = new ResponseCache();
+    await expiring.getOrLoad('/expired', 0, async () => loaded('expired', '"v1"'));
+    await expiring.getOrLoad('/expired-no-etag', 1, async () => loaded('gone'));
+    expect(expiring.getStats().entries).toBe(2);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await expiring.getOrLoad('/fresh', 60_000, async () => loaded('fresh'));
+    expect(expiring.getStats()).toMatchObject({ entries: 2, evictions: 0 });
+  });
+
+  it('invalidates entries by key fragment', async () => {
+    const cache = new ResponseCache();
+    await cache.getOrLoad('/events/a/applications', 60_000, async () => loaded(1));
+    await cache.getOrLoad('/events/b/applications', 60_000, async () => loaded(2));
+
+    expect(cache.invalidate('/events/a/')).toBe(1);
+    expect(cache.invalidate()).toBe(1);
+    expect(cache.getStats().entries).toBe(0);
+  });
+});
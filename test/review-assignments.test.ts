@@ -0,0 +1,56 @@
+import { describe, expect, it } from '@jest/globals';
+import { planReviewAssignments } from '../src/lib/review-assignments.js';
+import { aiDraftOf, syntheticEvent } from './mock-platform.js';
+
+const { applications, evaluations } = syntheticEvent();
+
+function reviewersByApplication(plan: ReturnType<typeof planReviewAssignments>): Map<string, string[]> {
+  const reviewers = new Map(plan.coverage.applications.map(coverage => [coverage.applicationId, [...coverage.reviewerIds]]));
+  for (const suggestion of plan.suggestions) {
+    reviewers.get(suggestion.applicationId)!.push(suggestion.reviewerId);
+  }
+  return reviewers;
+}
+
+describe('planReviewAssignments', () => {
+  it('brings every complete application to the target without repeating a reviewer', () => {
+    const plan = planReviewAssignments(applications, evaluations, { targetEvaluations: 3 });
+
+    expect(plan.coverage.applications).toHaveLength(applications.applications.filter(application => application.isComplete).length);
+    expect(plan.coverage.belowTargetAfterPlan).toBe(0);
+    expect(plan.unfilled).toEqual([]);
+    for (const reviewers of reviewersByApplication(plan).values()) {
+      expect(reviewers.length).toBeGreaterThanOrEqual(3);
+      expect(new Set(reviewers).size).toBe(reviewers.length);
+    }
+  });
+
+  it('respects conflicts of interest and the maximum load', () => {
+    const reviewerIds = [...new Set(evaluations.evaluations.map(evaluation => evaluation.reviewerId))];
+    const applicationIds = applications.applications.filter(application => application.isComplete).map(application => application.id);
+    const conflicts = applicationIds.map(applicationId => ({ reviewerId: reviewerIds[0], applicationId }));
+
+    const plan = planReviewAssignments(applications, evaluations, { targetEvaluations: 3, conflicts, maxLoad: 12 });
+
+    expect(plan.suggestions.filter(suggestion => suggestion.reviewerId === reviewerIds[0])).toEqual([]);
+    for (const reviewer of plan.reviewers) {
+      expect(reviewer.projectedLoad).toBeLessThanOrEqual(Math.max(12, reviewer.evaluationCount));
+    }
+    const shortfall = plan.coverage.applications.reduce((sum, coverage) => sum + coverage.shortfall, 0);
+    expect(plan.unfilled.reduce((sum, unfilled) => sum + unfilled.missing, 0)).toBe(shortfall);
+  });
+
+  it('neither counts nor assigns excluded reviewers', () => {
+    const drafts = evaluations.evaluations.map(aiDraftOf);
+    const aiReviewerId = drafts[0].reviewerId;
+    const withDrafts = { ...evaluations, evaluations: [...evaluations.evaluations, ...drafts] };
+
+    const plan = planReviewAssignments(applications, withDrafts, { excludeReviewerIds: [aiReviewerId] });
+
+    expect(plan).toEqual({
+      ...planReviewAssignments(applications, evaluations),
+      metadata: { ...plan.metadata }
+    });
+    expect(plan.reviewers.map(reviewer => reviewer.reviewerId)).not.toContain(aiReviewerId);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from '@jest/globals';
+import { SearchIndex, SearchIndexRegistry } from '../src/lib/search-index.js';
+import { applicationsEvent, applicationWith } from './mock-platform.js';
+
+const data = applicationsEvent([
+  applicationWith('app-1', { answers: {
+    motivation: 'Quiero llevar educación financiera a las comunidades rurales de mi país.',
+    project_idea: 'Una billetera para cooperativas agrícolas.',
+  } }),
+  applicationWith('app-2', { answers: {
+    motivation: 'I want to learn smart contract development with a strong community.',
+    project_idea: 'A community wallet, a community treasury and community grants.',
+  } }),
+  applicationWith('app-3', { answers: {
+    motivation: 'Building developer tooling for testing contracts.',
+  } }),
+]);
+
+describe('SearchIndex', () => {
+  const index = new SearchIndex(data, 'fingerprint');
+
+  it('matches across case, accents and plural endings', () => {
+    const result = index.search('EDUCACION comunidad');
+    expect(result.matches.map(match => match.applicationId)).toContain('app-1');
+    expect(result.matches.find(match => match.applicationId === 'app-1')!.matchedTerms).toEqual(['comunidad', 'educacion']);
+  });
+
+  it('ranks the answer that repeats the query term first and highlights it', () => {
+    const [first] = index.search('community').matches;
+    expect(first.applicationId).toBe('app-2');
+    expect(first.snippets[0]).toMatchObject({ questionKey: 'project_idea' });
+    expect(first.snippets[0].snippet).toContain('**community**');
+  });
+
+  it('limits the search to the given question keys', () => {
+    const result = index.search('wallet billetera', { questionKeys: ['motivation'] });
+    expect(result.totalMatches).toBe(0);
+    expect(index.search('wallet billetera', { questionKeys: ['project_idea'] }).totalMatches).toBe(2);
+  });
+
+  it('returns nothing for stopwords or unknown terms', () => {
+    expect(index.search('the and with').matches).toEqual([]);
+    expect(index.search('blockchainless').matches).toEqual([]);
+  });
+});
+
+describe('SearchIndexRegistry', () => {
+  it('rebuilds an event index only when its applications change', () => {
+    const registry = new SearchIndexRegistry();
+    expect(registry.getIndex('evt', data).rebuilt).toBe(true);
+    expect(registry.getIndex('evt', data).rebuilt).toBe(false);
+
+    const changed = applicationsEvent([...data.applications, applicationWith('app-4', { answers: { motivation: 'New answer' } })]);
+    const { index, rebuilt } = registry.getIndex('evt', changed);
+    expect(rebuilt).toBe(true);
+    expect(index.search('new answer').matches.map(match => match.applicationId)).toEqual(['app-4']);
+  });
+});